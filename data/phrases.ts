@@ -0,0 +1,30 @@
+// Urdu phrase dictionary used by the offline dictionary translation provider.
+// Keys are lowercase English phrases; longer phrases are matched first.
+const phraseDictionary: Record<string, string> = {
+  "in this article": "اس مضمون میں",
+  "in this blog": "اس بلاگ میں",
+  "in this post": "اس پوسٹ میں",
+  "for example": "مثال کے طور پر",
+  "in addition": "اس کے علاوہ",
+  "as well as": "اور ساتھ ہی",
+  "on the other hand": "دوسری طرف",
+  "at the same time": "ایک ہی وقت میں",
+  "in other words": "دوسرے الفاظ میں",
+  "as a result": "نتیجے کے طور پر",
+  "according to": "کے مطابق",
+  "a lot of": "بہت سے",
+  "more than": "سے زیادہ",
+  "less than": "سے کم",
+  "each other": "ایک دوسرے",
+  "in order to": "تاکہ",
+  "such as": "جیسے کہ",
+  "machine learning": "مشین لرننگ",
+  "artificial intelligence": "مصنوعی ذہانت",
+  "web development": "ویب ڈویلپمنٹ",
+  "social media": "سوشل میڈیا",
+  "climate change": "موسمیاتی تبدیلی",
+  "human rights": "انسانی حقوق",
+  "the world": "دنیا",
+};
+
+export default phraseDictionary;
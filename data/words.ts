@@ -0,0 +1,95 @@
+// Urdu word dictionary used by the offline dictionary translation provider.
+// Keys are lowercase English words.
+const wordDictionary: Record<string, string> = {
+  "a": "ایک",
+  "an": "ایک",
+  "and": "اور",
+  "or": "یا",
+  "but": "لیکن",
+  "is": "ہے",
+  "are": "ہیں",
+  "was": "تھا",
+  "were": "تھے",
+  "be": "ہونا",
+  "has": "ہے",
+  "have": "ہیں",
+  "not": "نہیں",
+  "no": "نہیں",
+  "yes": "ہاں",
+  "this": "یہ",
+  "that": "وہ",
+  "these": "یہ",
+  "those": "وہ",
+  "it": "یہ",
+  "we": "ہم",
+  "you": "آپ",
+  "they": "وہ",
+  "he": "وہ",
+  "she": "وہ",
+  "i": "میں",
+  "in": "میں",
+  "on": "پر",
+  "of": "کا",
+  "to": "کو",
+  "for": "کے لیے",
+  "with": "کے ساتھ",
+  "from": "سے",
+  "by": "کی طرف سے",
+  "about": "کے بارے میں",
+  "all": "تمام",
+  "many": "بہت سے",
+  "more": "زیادہ",
+  "most": "سب سے زیادہ",
+  "new": "نیا",
+  "good": "اچھا",
+  "bad": "برا",
+  "important": "اہم",
+  "people": "لوگ",
+  "world": "دنیا",
+  "time": "وقت",
+  "year": "سال",
+  "years": "سال",
+  "day": "دن",
+  "life": "زندگی",
+  "work": "کام",
+  "water": "پانی",
+  "book": "کتاب",
+  "school": "اسکول",
+  "student": "طالب علم",
+  "students": "طلباء",
+  "teacher": "استاد",
+  "country": "ملک",
+  "city": "شہر",
+  "government": "حکومت",
+  "health": "صحت",
+  "education": "تعلیم",
+  "technology": "ٹیکنالوجی",
+  "computer": "کمپیوٹر",
+  "data": "ڈیٹا",
+  "system": "نظام",
+  "problem": "مسئلہ",
+  "solution": "حل",
+  "research": "تحقیق",
+  "article": "مضمون",
+  "blog": "بلاگ",
+  "summary": "خلاصہ",
+  "language": "زبان",
+  "knowledge": "علم",
+  "future": "مستقبل",
+  "help": "مدد",
+  "use": "استعمال",
+  "make": "بنانا",
+  "can": "سکتا ہے",
+  "will": "گا",
+  "should": "چاہیے",
+  "very": "بہت",
+  "also": "بھی",
+  "because": "کیونکہ",
+  "how": "کیسے",
+  "why": "کیوں",
+  "what": "کیا",
+  "when": "کب",
+  "where": "کہاں",
+};
+
+export default wordDictionary;
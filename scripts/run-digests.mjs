@@ -0,0 +1,15 @@
+// Triggers one scheduled digest run against a running server.
+// Usage: pnpm digests [baseUrl]   (defaults to http://localhost:3000; sends CRON_SECRET, which the server requires)
+const baseUrl = process.argv[2] || process.env.APP_URL || 'http://localhost:3000';
+const headers = process.env.CRON_SECRET ? { Authorization: `Bearer ${process.env.CRON_SECRET}` } : {};
+
+const response = await fetch(new URL('/api/cron/digests', baseUrl), { headers });
+const data = await response.json();
+if (!response.ok) {
+  console.error(`Digest run failed (${response.status}):`, data.error);
+  process.exit(1);
+}
+for (const run of data.runs) {
+  const outcome = run.error ? `error: ${run.error}` : `${run.newPosts} new, ${run.failed} failed`;
+  console.log(`${run.feedUrl}: ${outcome}`);
+}
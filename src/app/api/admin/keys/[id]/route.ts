@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdmin, revokeApiKey, type ApiKey } from '@/lib/apikeys';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// DELETE /api/admin/keys/:id  (Authorization: Bearer $ADMIN_TOKEN) → the revoked key; it stays listed with its usage
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isAdmin(req)) {
+    return errorResponse(new SummariseError('UNAUTHORIZED', 'Unauthorized'));
+  }
+  try {
+    const { id } = await params;
+    const key = await revokeApiKey(id);
+    if (!key) {
+      return errorResponse(new SummariseError('NOT_FOUND', 'API key not found.'));
+    }
+    return NextResponse.json<ApiKey>(key);
+  } catch (error: unknown) {
+    return errorResponse(error, 'API keys');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdmin, issueApiKey, listApiKeys, type ApiKey, type IssuedApiKey } from '@/lib/apikeys';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+const unauthorized = () => errorResponse(new SummariseError('UNAUTHORIZED', 'Unauthorized'));
+
+// GET /api/admin/keys  (Authorization: Bearer $ADMIN_TOKEN) → every key with its usage, newest first
+export async function GET(req: NextRequest) {
+  if (!isAdmin(req)) return unauthorized();
+  try {
+    const items = await listApiKeys();
+    return NextResponse.json<{ items: ApiKey[] }>({ items }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: unknown) {
+    return errorResponse(error, 'API keys');
+  }
+}
+
+// POST /api/admin/keys  { name: "newsletter-service" } → 201 with the key, shown only this once
+export async function POST(req: NextRequest) {
+  if (!isAdmin(req)) return unauthorized();
+  try {
+    const body = await req.json();
+    const issued = await issueApiKey(body ?? {});
+    return NextResponse.json<IssuedApiKey>(issued, { status: 201, headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: unknown) {
+    return errorResponse(error, 'API keys');
+  }
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionUser, type AuthState } from '@/lib/users';
+import { errorResponse } from '@/lib/errors';
+
+// GET /api/auth/me → { user } for the session cookie, or { user: null }
+export async function GET(req: NextRequest) {
+  try {
+    const user = await sessionUser(req);
+    return NextResponse.json<AuthState>({ user }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Auth API');
+  }
+}
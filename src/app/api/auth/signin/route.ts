@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSession, setSessionCookie, verifyCredentials, type AuthState } from '@/lib/users';
+import { withAuthRateLimit } from '@/lib/access';
+import { errorResponse } from '@/lib/errors';
+
+// POST /api/auth/signin  { email, password } → { user } with a session cookie
+export const POST = withAuthRateLimit(async (req: NextRequest) => {
+  try {
+    const user = await verifyCredentials(await req.json());
+    const response = NextResponse.json<AuthState>({ user });
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+  } catch (error: unknown) {
+    return errorResponse(error, 'Auth API');
+  }
+});
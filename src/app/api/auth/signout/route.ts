@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession, setSessionCookie, type AuthState } from '@/lib/users';
+import { errorResponse } from '@/lib/errors';
+
+// POST /api/auth/signout → { user: null }, session ended and cookie cleared
+export async function POST(req: NextRequest) {
+  try {
+    await endSession(req);
+    const response = NextResponse.json<AuthState>({ user: null });
+    setSessionCookie(response, null);
+    return response;
+  } catch (error: unknown) {
+    return errorResponse(error, 'Auth API');
+  }
+}
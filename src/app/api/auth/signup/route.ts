@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSession, createUser, setSessionCookie, type AuthState } from '@/lib/users';
+import { withAuthRateLimit } from '@/lib/access';
+import { errorResponse } from '@/lib/errors';
+
+// POST /api/auth/signup  { email, password } → 201 { user }, signed in
+export const POST = withAuthRateLimit(async (req: NextRequest) => {
+  try {
+    const user = await createUser(await req.json());
+    const response = NextResponse.json<AuthState>({ user }, { status: 201 });
+    setSessionCookie(response, await createSession(user.id));
+    return response;
+  } catch (error: unknown) {
+    return errorResponse(error, 'Auth API');
+  }
+});
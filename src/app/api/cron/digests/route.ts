@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runAllSubscriptions, type CronRunResult } from '@/lib/subscriptions';
+import { hasBearerToken } from '@/lib/apikeys';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// Scheduled runs can take a while: every subscription's new posts are summarised (CRON_MAX_RUN_SECONDS)
+export const maxDuration = 300;
+
+// GET /api/cron/digests  (Authorization: Bearer $CRON_SECRET)
+// Call from any scheduler (e.g. Vercel Cron, or curl from a local crontab)
+export async function GET(req: NextRequest) {
+  // Closed when CRON_SECRET is unset
+  if (!hasBearerToken(req, process.env.CRON_SECRET)) {
+    return errorResponse(new SummariseError('UNAUTHORIZED', 'Unauthorized'));
+  }
+
+  try {
+    const result = await runAllSubscriptions();
+    return NextResponse.json<CronRunResult>(result);
+  } catch (error: unknown) {
+    return errorResponse(error, 'Digest cron');
+  }
+}
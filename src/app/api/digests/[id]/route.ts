@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDigest } from '@/lib/subscriptions';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// GET /api/digests/:id
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const digest = await getDigest(id);
+    if (!digest) {
+      return errorResponse(new SummariseError('NOT_FOUND', 'Digest not found.'));
+    }
+    return NextResponse.json(digest);
+  } catch (error: unknown) {
+    return errorResponse(error, 'Digests API');
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listDigests } from '@/lib/subscriptions';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// GET /api/digests?subscriptionId=...&page=1&limit=20
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const page = params.has('page') ? Number(params.get('page')) : undefined;
+    const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+    if ((page !== undefined && !(page >= 1)) || (limit !== undefined && !(limit >= 1))) {
+      return errorResponse(new SummariseError('INVALID_REQUEST', 'page and limit must be positive numbers.'));
+    }
+
+    const result = await listDigests({
+      subscriptionId: params.get('subscriptionId') || undefined,
+      page,
+      limit,
+    });
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return errorResponse(error, 'Digests API');
+  }
+}
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobStatus, toJobStatusView, type JobStatusView } from '@/lib/jobs';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// GET /api/jobs/:id → { id, status, stage, progress, result, error, errorCode, errorStatus, createdAt, startedAt, updatedAt }
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const job = await getJobStatus(id);
+    if (!job) {
+      return errorResponse(new SummariseError('NOT_FOUND', 'Job not found.'));
+    }
+    return NextResponse.json<JobStatusView>(toJobStatusView(job), { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Jobs API');
+  }
+}
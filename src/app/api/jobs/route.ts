@@ -0,0 +1,28 @@
+import { after, NextRequest, NextResponse } from 'next/server';
+import { parseSummariseRequest, type SummariseRequestBody } from '@/lib/pipeline';
+import { getJobStore, processJob, type JobCreated } from '@/lib/jobs';
+import { withApiAccess } from '@/lib/access';
+import { optionalSessionUser } from '@/lib/users';
+import { errorResponse } from '@/lib/errors';
+
+// The job runs in this function after the response is sent, so it is bound by the same limit (JOB_MAX_RUN_SECONDS)
+export const maxDuration = 300;
+
+// POST /api/jobs  (same body as /api/summarise) → 202 { id, status, statusUrl }
+export const POST = withApiAccess(async (req: NextRequest) => {
+  try {
+    const body: SummariseRequestBody = await req.json();
+    const user = await optionalSessionUser(req);
+    const request = { ...parseSummariseRequest(body), ...(user && { ownerId: user.id }) };
+    const store = getJobStore();
+    const job = await store.create(request);
+    // Process after the response is sent so the client gets the job id immediately
+    after(() => processJob(job.id, store));
+    return NextResponse.json<JobCreated>(
+      { id: job.id, status: job.status, statusUrl: `/api/jobs/${job.id}` },
+      { status: 202 }
+    );
+  } catch (error: unknown) {
+    return errorResponse(error, 'Jobs API');
+  }
+});
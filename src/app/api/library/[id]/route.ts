@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteOwnedSummary, updateOwnedSummary, type StoredSummary } from '@/lib/history';
+import { fieldErrors, LibraryUpdateSchema } from '@/lib/schema';
+import { requireUser } from '@/lib/users';
+import { errorResponse, SummariseError, ValidationError } from '@/lib/errors';
+
+type Params = { params: Promise<{ id: string }> };
+
+// PATCH /api/library/:id  { tags: ["tech"], starred: true } → the updated item
+export async function PATCH(req: NextRequest, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    const parsed = LibraryUpdateSchema.safeParse(await req.json());
+    if (!parsed.success) throw new ValidationError(fieldErrors(parsed.error));
+    const { id } = await params;
+    const item = await updateOwnedSummary(id, user.id, parsed.data);
+    if (!item) {
+      return errorResponse(new SummariseError('NOT_FOUND', 'Summary not found in your library.'));
+    }
+    return NextResponse.json<StoredSummary>(item);
+  } catch (error: unknown) {
+    return errorResponse(error, 'Library API');
+  }
+}
+
+// DELETE /api/library/:id
+export async function DELETE(req: NextRequest, { params }: Params) {
+  try {
+    const user = await requireUser(req);
+    const { id } = await params;
+    if (!(await deleteOwnedSummary(id, user.id))) {
+      return errorResponse(new SummariseError('NOT_FOUND', 'Summary not found in your library.'));
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Library API');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSummaries, type SummaryPage } from '@/lib/history';
+import { requireUser } from '@/lib/users';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// GET /api/library?page=1&limit=20&tag=...&starred=true  (signed in) → the user's own summaries, newest first
+export async function GET(req: NextRequest) {
+  try {
+    const user = await requireUser(req);
+    const params = req.nextUrl.searchParams;
+    const page = params.has('page') ? Number(params.get('page')) : undefined;
+    const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+    if ((page !== undefined && !(page >= 1)) || (limit !== undefined && !(limit >= 1))) {
+      return errorResponse(new SummariseError('INVALID_REQUEST', 'page and limit must be positive numbers.'));
+    }
+
+    const result = await listSummaries({
+      ownerId: user.id,
+      tag: params.get('tag') || undefined,
+      starred: params.get('starred') === 'true' ? true : undefined,
+      page,
+      limit,
+    });
+    return NextResponse.json<SummaryPage>(result, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Library API');
+  }
+}
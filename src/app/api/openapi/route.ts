@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// GET /api/openapi → OpenAPI 3.1 document, generated from the schemas in src/lib/schema.ts
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
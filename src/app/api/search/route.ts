@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_SEARCH_LIMIT, getSearchIndex, type SearchResponse } from '@/lib/search';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+const MAX_SEARCH_LIMIT = 50;
+
+// GET /api/search?q=...&limit=10
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const query = (params.get('q') || '').trim();
+    if (!query) {
+      return errorResponse(new SummariseError('INVALID_REQUEST', 'Please provide a search query (q).'));
+    }
+    const limit = params.has('limit') ? Number(params.get('limit')) : DEFAULT_SEARCH_LIMIT;
+    if (!(limit >= 1)) {
+      return errorResponse(new SummariseError('INVALID_REQUEST', 'limit must be a positive number.'));
+    }
+
+    const hits = await getSearchIndex().search(query, Math.min(Math.floor(limit), MAX_SEARCH_LIMIT));
+    return NextResponse.json<SearchResponse>({ query, hits });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Search API');
+  }
+}
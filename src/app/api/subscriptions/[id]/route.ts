@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSubscription } from '@/lib/subscriptions';
+import { isAdmin } from '@/lib/apikeys';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// DELETE /api/subscriptions/:id  (Authorization: Bearer $ADMIN_TOKEN)
+export async function DELETE(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!isAdmin(req)) {
+    return errorResponse(new SummariseError('UNAUTHORIZED', 'Unauthorized'));
+  }
+  try {
+    const { id } = await params;
+    if (!(await deleteSubscription(id))) {
+      return errorResponse(new SummariseError('NOT_FOUND', 'Subscription not found.'));
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Subscriptions API');
+  }
+}
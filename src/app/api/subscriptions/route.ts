@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSubscription, listSubscriptions } from '@/lib/subscriptions';
+import { isAdmin } from '@/lib/apikeys';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// GET /api/subscriptions
+export async function GET() {
+  try {
+    const items = await listSubscriptions();
+    return NextResponse.json({ items });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Subscriptions API');
+  }
+}
+
+// POST /api/subscriptions  (Authorization: Bearer $ADMIN_TOKEN)  { url: "https://blog.example.com" | ".../feed.xml", languages, length, order, algorithm }
+// Every subscription is fetched and summarised on each cron run, so only admins add them
+export async function POST(req: NextRequest) {
+  if (!isAdmin(req)) {
+    return errorResponse(new SummariseError('UNAUTHORIZED', 'Unauthorized'));
+  }
+  try {
+    const body = await req.json();
+    const subscription = await createSubscription(body);
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (error: unknown) {
+    return errorResponse(error, 'Subscriptions API');
+  }
+}
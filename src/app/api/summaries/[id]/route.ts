@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSummary, type StoredSummary } from '@/lib/history';
+import { sessionUser } from '@/lib/users';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// GET /api/summaries/:id  (library items only for their signed-in owner)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const user = await sessionUser(req);
+    const summary = await getSummary(id, user?.id ?? null);
+    if (!summary) {
+      return errorResponse(new SummariseError('NOT_FOUND', 'Summary not found.'));
+    }
+    return NextResponse.json<StoredSummary>(summary);
+  } catch (error: unknown) {
+    return errorResponse(error, 'History API');
+  }
+}
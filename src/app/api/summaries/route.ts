@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listSummaries, type SummaryPage } from '@/lib/history';
+import { errorResponse, SummariseError } from '@/lib/errors';
+
+// --- Helper: Parse an optional date query parameter ---
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/summaries?page=1&limit=20&url=...&domain=...&from=...&to=...
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const from = parseDate(params.get('from'));
+    const to = parseDate(params.get('to'));
+    if (from === null || to === null) {
+      return errorResponse(new SummariseError('INVALID_REQUEST', 'from and to must be valid dates.'));
+    }
+    const page = params.has('page') ? Number(params.get('page')) : undefined;
+    const limit = params.has('limit') ? Number(params.get('limit')) : undefined;
+    if ((page !== undefined && !(page >= 1)) || (limit !== undefined && !(limit >= 1))) {
+      return errorResponse(new SummariseError('INVALID_REQUEST', 'page and limit must be positive numbers.'));
+    }
+
+    const result = await listSummaries({
+      url: params.get('url') || undefined,
+      domain: params.get('domain') || undefined,
+      from,
+      to,
+      page,
+      limit,
+    });
+    return NextResponse.json<SummaryPage>(result);
+  } catch (error: unknown) {
+    return errorResponse(error, 'History API');
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { batchCost, runBatch, type BatchRequestBody, type BatchResponse } from '@/lib/batch';
+import { withApiAccess } from '@/lib/access';
+import { errorResponse } from '@/lib/errors';
+
+// POST /api/summarise/batch  { items: ["https://...", { text: "..." }], languages, length, order, algorithm, concurrency }
+export const POST = withApiAccess(async (req: NextRequest) => {
+  try {
+    const body: BatchRequestBody = await req.json();
+    const result = await runBatch(body);
+    return NextResponse.json<BatchResponse>(result);
+  } catch (error: unknown) {
+    return errorResponse(error, 'Batch API');
+  }
+}, { cost: async (req) => batchCost(await req.clone().json()) });
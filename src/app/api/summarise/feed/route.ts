@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { feedDigestCost, runFeedDigest, type FeedDigest, type FeedDigestRequestBody } from '@/lib/digest';
+import { withApiAccess } from '@/lib/access';
+import { errorResponse } from '@/lib/errors';
+
+// POST /api/summarise/feed  { url: "https://.../feed.xml", limit, languages, length, order, algorithm }
+export const POST = withApiAccess(async (req: NextRequest) => {
+  try {
+    const body: FeedDigestRequestBody = await req.json();
+    const digest = await runFeedDigest(body);
+    return NextResponse.json<FeedDigest>(digest);
+  } catch (error: unknown) {
+    return errorResponse(error, 'Feed API');
+  }
+}, { cost: async (req) => feedDigestCost(await req.clone().json()) });
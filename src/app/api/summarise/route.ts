@@ -1,109 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
-import * as cheerio from 'cheerio';
-import fetch from 'node-fetch';
-import { removeStopwords } from 'stopword';
-import { MongoClient } from 'mongodb';
-import { Client as GradioClient } from '@gradio/client';
+import {
+  parseSummariseRequest,
+  runSummarise,
+  type PipelineEvent,
+  type SummariseRequest,
+  type SummariseRequestBody,
+  type SummariseResponse,
+} from '@/lib/pipeline';
+import { readUpload, readUploadForm } from '@/lib/documents';
+import { withApiAccess } from '@/lib/access';
+import { optionalSessionUser } from '@/lib/users';
+import { errorResponse, toErrorBody } from '@/lib/errors';
 
-const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/blog-summariser';
-const DB_NAME = 'blog-summariser';
-
-// --- Helper: Scrape blog content ---
-async function scrapeBlogContent(url: string): Promise<string> {
-  try {
-    const res = await fetch(url);
-    const html = await res.text();
-    const $ = cheerio.load(html);
-    const paragraphs = $('p')
-      .map((_, el) => $(el).text())
-      .get()
-      .filter((t) => t.trim().length > 40);
-    return paragraphs.join(' ');
-  } catch (error) {
-    throw new Error(`Failed to scrape blog: ${error}`);
-  }
+// --- Helper: Stream pipeline events as newline-delimited JSON ---
+// The request is already validated, so only failures inside the pipeline become error events
+function streamSummarise(request: SummariseRequest): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: PipelineEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+      try {
+        await runSummarise(request, send);
+      } catch (error: unknown) {
+        console.error('API Error:', error);
+        const { body, status } = toErrorBody(error);
+        send({ type: 'error', ...body, status });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
 }
 
-// --- Helper: Summarize using extractive logic ---
-function summarizeText(text: string, topN = 3): string {
-  try {
-    const sentences = text.match(/[^.!?\n]+[.!?\n]+/g) || [text];
-    const allWords = removeStopwords(
-      text.toLowerCase().replace(/[^a-zA-Z\s]/g, '').split(/\s+/)
-    );
-    const freq: Record<string, number> = {};
-    allWords.forEach((w) => (freq[w] = (freq[w] || 0) + 1));
-    const scored = sentences.map((s) => {
-      const words = removeStopwords(
-        s.toLowerCase().replace(/[^a-zA-Z\s]/g, '').split(/\s+/)
-      );
-      const score = words.reduce((sum, w) => sum + (freq[w] || 0), 0);
-      return { sentence: s.trim(), score };
-    });
-    const top = scored
-      .sort((a, b) => b.score - a.score)
-      .slice(0, topN)
-      .map((s) => s.sentence);
-    return top.join(' ');
-  } catch (error) {
-    throw new Error(`Failed to summarize text: ${error}`);
+// --- Helper: Parsed request and whether it asked for streaming; uploads arrive as multipart/form-data with the options as extra fields ---
+async function readRequest(req: NextRequest): Promise<{ stream: boolean; request: SummariseRequest }> {
+  if (req.headers.get('content-type')?.startsWith('multipart/form-data')) {
+    const form = await readUploadForm(req);
+    const { body, metadata } = await readUpload(form);
+    return { stream: form.get('stream') === 'true', request: { ...parseSummariseRequest(body), metadata } };
   }
+  const body: SummariseRequestBody = await req.json();
+  return { stream: body?.stream === true, request: parseSummariseRequest(body) };
 }
 
-export async function POST(req: NextRequest) {
+export const POST = withApiAccess(async (req: NextRequest) => {
   try {
-    const body = await req.json();
-    let text = '';
-    let url = '';
-    if (typeof body.text === 'string' && body.text.trim().length >= 100) {
-      text = body.text.trim();
-    } else if (typeof body.url === 'string' && body.url.trim().length > 0) {
-      url = body.url.trim();
-      text = await scrapeBlogContent(url);
-      if (!text || text.length < 100) {
-        return NextResponse.json({ error: 'Could not extract enough content from the provided URL.' }, { status: 400 });
-      }
-    } else {
-      return NextResponse.json({ error: 'Please provide sufficient blog/article text (at least 100 characters) or a valid URL.' }, { status: 400 });
-    }
-
-    const summary = summarizeText(text);
-    if (!summary || summary.trim().length < 50) {
-      return NextResponse.json({ error: 'Could not generate summary' }, { status: 500 });
-    }
-
-    // ✅ Translation using your Hugging Face Space
-    let urduSummary = '';
-    try {
-      const client = await GradioClient.connect("NOOBBoy69/English_Urdu_translation");
-      const result = await client.predict("/predict", { text: summary });
-      urduSummary = result.data as string;
-    } catch (err) {
-      console.error('HF translation error:', err);
-      return NextResponse.json({ error: 'Failed to translate to Urdu: ' + (err instanceof Error ? err.message : String(err)) }, { status: 500 });
+    const [{ stream, request: parsed }, user] = await Promise.all([readRequest(req), optionalSessionUser(req)]);
+    // Signed-in users' summaries are saved to their library
+    const request: SummariseRequest = { ...parsed, ...(user && { ownerId: user.id }) };
+    // Streaming mode: `stream: true` in the body or an NDJSON Accept header
+    if (stream || req.headers.get('accept')?.includes('application/x-ndjson')) {
+      return streamSummarise(request);
     }
-
-    // Optional: Save summary and translation
-    try {
-      const client = new MongoClient(MONGODB_URI);
-      await client.connect();
-      const db = client.db(DB_NAME);
-      await db.collection('blogs').insertOne({ url, text, createdAt: new Date() });
-      await db.collection('summaries').insertOne({ url, summary, urduSummary, createdAt: new Date() });
-      await client.close();
-    } catch (error) {
-      console.error('MongoDB save error:', error);
-    }
-
-    return NextResponse.json({
-      summary,
-      urduSummary,
-      originalLength: text.length,
-      summaryLength: summary.length,
-    });
+    const result = await runSummarise(request);
+    return NextResponse.json<SummariseResponse>(result);
   } catch (error: unknown) {
-    console.error('API Error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
-    return NextResponse.json({ error: errorMessage }, { status: 500 });
+    return errorResponse(error);
   }
-}
+});
@@ -1,73 +1,237 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import ThreeScene from '@/components/ThreeScene';
+import type { ArticleMetadata } from '@/lib/extractor';
+import type { StoredSummary } from '@/lib/history';
+import type { SelectedSentence, SentenceOrder, SummaryAlgorithm, SummaryLength } from '@/lib/summarizer';
+import type { PipelineEvent, PipelineStage, SummariseRequestBody, SummariseResponse } from '@/lib/pipeline';
+import type { BatchItemResult, SharedOptionsBody } from '@/lib/batch';
+import type { DigestOverview } from '@/lib/digest';
+import type { ErrorCode } from '@/lib/errors';
+import { ApiError, createJob, getJob, summarise, summariseBatch, summariseFeed } from '@/lib/api';
 
+// Pending background job, remembered so a reload resumes polling
+const JOB_STORAGE_KEY = 'pendingSummaryJob';
+const JOB_POLL_INTERVAL_MS = 1500;
+// Give up polling after this long; the server fails a job that outlives its 5-minute run limit by then
+const JOB_POLL_TIMEOUT_MS = 7 * 60 * 1000;
 
+type SubmitInput = { mode: 'text'|'url'|'batch'|'feed'|'file', value: string, file?: File, languages: string[], length: SummaryLength, order: SentenceOrder, algorithm: SummaryAlgorithm, background: boolean };
 
 export default function Home() {
   const [loadingStage, setLoadingStage] = useState<0 | 1 | 2 | 3>(0); // 0=idle, 1=sending, 2=translating, 3=complete
+  const [progressStage, setProgressStage] = useState<PipelineStage | null>(null); // Last stage reported by the API stream
   const [summary, setSummary] = useState<string>('');
-  const [urduSummary, setUrduSummary] = useState<string>('');
+  const [sentences, setSentences] = useState<SelectedSentence[]>([]);
+  const [totalSentences, setTotalSentences] = useState<number>(0);
+  const [metadata, setMetadata] = useState<ArticleMetadata | null>(null);
+  const [translations, setTranslations] = useState<Record<string, string>>({});
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<ErrorCode | null>(null);
+  const [batchResults, setBatchResults] = useState<BatchItemResult[] | null>(null);
+  const [digest, setDigest] = useState<{ title: string; overview: DigestOverview | null } | null>(null);
+  const [pendingJobId, setPendingJobId] = useState<string | null>(null);
+  // Token of the active polling loop; a loop stops once it is replaced
+  const pollingRef = useRef<object | null>(null);
+  // Last submission, replayed by the error panel's retry actions
+  const lastInputRef = useRef<SubmitInput | null>(null);
 
   useEffect(() => {
     function handleClear() {
       setSummary('');
-      setUrduSummary('');
+      setTranslations({});
+      setMetadata(null);
       setLoadingStage(0); // Ensure input is re-enabled after closing summary
     }
     window.addEventListener('clearSummaries', handleClear);
     return () => window.removeEventListener('clearSummaries', handleClear);
   }, []);
 
+  // Results reach here already checked against the response schema (src/lib/api.ts)
+  const applyResult = useCallback((data: SummariseResponse) => {
+    setSummary(data.summary);
+    setSentences(data.sentences);
+    setTotalSentences(data.totalSentences);
+    setMetadata(data.metadata);
+    setTranslations(data.translations);
+    setProgressStage(null);
+    setLoadingStage(3); // Complete
+  }, []);
+
+  // Feed mode: summarise the feed's latest posts into a digest
+  const handleFeedSubmit = async (url: string, options: SharedOptionsBody) => {
+    const feedDigest = await summariseFeed({ ...options, url });
+    setDigest({ title: feedDigest.feed.title || 'Feed digest', overview: feedDigest.overview });
+    setBatchResults(feedDigest.results);
+    setLoadingStage(0);
+  };
+
+  // Background mode: poll the job until it completes or fails
+  const pollJob = useCallback(async (id: string) => {
+    const token = {};
+    pollingRef.current = token;
+    setPendingJobId(id);
+    setLoadingStage(1);
+    const deadline = Date.now() + JOB_POLL_TIMEOUT_MS;
+    try {
+      while (pollingRef.current === token) {
+        if (Date.now() > deadline) {
+          throw new ApiError('The background job is taking too long. Please submit it again.');
+        }
+        const job = await getJob(id);
+        if (job.status === 'completed' && job.result) {
+          applyResult(job.result);
+          break;
+        }
+        if (job.status === 'failed') {
+          throw new ApiError(job.error || 'Failed to process text', job.errorCode);
+        }
+        if (job.stage) {
+          setProgressStage(job.stage);
+          setLoadingStage(job.stage === 'translating' || job.stage === 'saving' ? 2 : 1);
+        }
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      setErrorCode(err instanceof ApiError ? err.code : null);
+      setProgressStage(null);
+      setLoadingStage(0);
+    }
+    if (pollingRef.current === token) {
+      pollingRef.current = null;
+      localStorage.removeItem(JOB_STORAGE_KEY);
+      setPendingJobId(null);
+    }
+  }, [applyResult]);
+
+  // Resume a job that was still pending when the page was closed or reloaded
+  useEffect(() => {
+    const id = localStorage.getItem(JOB_STORAGE_KEY);
+    if (id) pollJob(id);
+    return () => {
+      pollingRef.current = null;
+    };
+  }, [pollJob]);
+
+  const handleBackgroundSubmit = async (payload: SummariseRequestBody) => {
+    const { id } = await createJob(payload);
+    localStorage.setItem(JOB_STORAGE_KEY, id);
+    await pollJob(id);
+  };
+
+  // Batch mode: one URL or text per line, summarised by the local batch endpoint
+  const handleBatchSubmit = async (value: string, options: SharedOptionsBody) => {
+    const items = value.split('\n').map(line => line.trim()).filter(Boolean);
+    const { results } = await summariseBatch({ ...options, items });
+    setBatchResults(results);
+    setLoadingStage(0);
+  };
+
   // Accept inputMode and value from ThreeScene
-  const handleSubmit = async (input: { mode: 'text'|'url', value: string }) => {
+  const handleSubmit = async (input: SubmitInput) => {
+    lastInputRef.current = input;
     setLoadingStage(1); // Sending to API
+    setProgressStage(null);
     setError('');
+    setErrorCode(null);
     setSummary('');
-    setUrduSummary('');
+    setTranslations({});
+    setMetadata(null);
+    setBatchResults(null);
+    setDigest(null);
 
     try {
-      const payload: Record<string, string> = {};
+      if (input.mode === 'batch') {
+        await handleBatchSubmit(input.value, { languages: input.languages, length: input.length, order: input.order, algorithm: input.algorithm });
+        return;
+      }
+      if (input.mode === 'feed') {
+        await handleFeedSubmit(input.value, { languages: input.languages, length: input.length, order: input.order, algorithm: input.algorithm });
+        return;
+      }
+      const payload: SummariseRequestBody = { languages: input.languages, length: input.length, order: input.order, algorithm: input.algorithm };
       if (input.mode === 'url') {
         payload.url = input.value;
-      } else {
+      } else if (input.mode !== 'file') {
         payload.text = input.value;
       }
-      const response = await fetch('https://noobboy69-blog-summariser-api.hf.space/summarise', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(payload),
-      });
-
-      setLoadingStage(2); // Translating
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to process text');
+      if (input.background) {
+        await handleBackgroundSubmit(payload);
+        return;
       }
 
-      setSummary(data.summary);
-      setUrduSummary(data.urduSummary);
-      setLoadingStage(3); // Complete
+      // Streamed progress: stages drive the loading indicator, the summary and translations show as they arrive
+      const handleEvent = (event: PipelineEvent) => {
+        switch (event.type) {
+          case 'stage':
+            setProgressStage(event.stage);
+            setLoadingStage(event.stage === 'translating' || event.stage === 'saving' ? 2 : 1);
+            break;
+          case 'summary':
+            setSummary(event.summary);
+            setSentences(event.sentences);
+            setTotalSentences(event.totalSentences);
+            setMetadata(event.metadata);
+            break;
+          case 'translation':
+            setTranslations(prev => ({ ...prev, [event.language]: event.text }));
+            break;
+        }
+      };
+      const result = await summarise(payload, { file: input.mode === 'file' ? input.file : undefined, onEvent: handleEvent });
+      applyResult(result);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      setErrorCode(err instanceof ApiError ? err.code : null);
+      setProgressStage(null);
       setLoadingStage(0);
     }
   };
 
+  // Error panel actions: resubmit the last input, optionally as an English-only summary
+  const handleRetry = (options: { withoutTranslation?: boolean } = {}) => {
+    const input = lastInputRef.current;
+    if (!input) return;
+    handleSubmit(options.withoutTranslation ? { ...input, languages: [] } : input);
+  };
+
+  // Show a stored summary without reprocessing it
+  const handleOpenSummary = (item: StoredSummary) => {
+    setError('');
+    setErrorCode(null);
+    setSummary(item.summary);
+    setSentences(item.sentences);
+    setTotalSentences(item.totalSentences);
+    setMetadata(item.metadata);
+    setTranslations(item.translations);
+    setLoadingStage(3);
+  };
+
   return (
     <main className="min-h-screen">
       <ThreeScene
         onSubmit={handleSubmit}
         loadingStage={loadingStage}
+        progressStage={progressStage}
         summary={summary}
-        urduSummary={urduSummary}
+        sentences={sentences}
+        totalSentences={totalSentences}
+        metadata={metadata}
+        translations={translations}
         error={error}
+        errorCode={errorCode}
+        onRetry={handleRetry}
+        onOpenSummary={handleOpenSummary}
+        batchResults={batchResults}
+        onOpenBatchResult={applyResult}
+        onCloseBatch={() => {
+          setBatchResults(null);
+          setDigest(null);
+        }}
+        digest={digest}
+        pendingJobId={pendingJobId}
       />
     </main>
   );
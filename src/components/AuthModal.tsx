@@ -0,0 +1,113 @@
+"use client";
+import { useState } from "react";
+import { createPortal } from "react-dom";
+import type { User } from "@/lib/users";
+import { ApiError, signIn, signUp } from "@/lib/api";
+
+export interface AuthModalProps {
+  open: boolean;
+  onClose: () => void;
+  onSignedIn: (user: User) => void;
+}
+
+export default function AuthModal({ open, onClose, onSignedIn }: AuthModalProps) {
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    try {
+      const { user } = await (mode === 'signin' ? signIn : signUp)({ email, password });
+      if (user) {
+        setPassword('');
+        onSignedIn(user);
+      }
+    } catch (err) {
+      // Field problems read better one per line than as the joined message
+      setError(err instanceof ApiError && err.fields.length > 0
+        ? err.fields.map(f => f.message).join(' ')
+        : err instanceof Error ? err.message : 'Something went wrong');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!open || typeof window === 'undefined') return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/30 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="animate-modal-pop bg-white/40 backdrop-blur-2xl rounded-2xl shadow-2xl p-8 max-w-sm w-full relative border border-white/30"
+        style={{boxShadow: '0 8px 32px 0 rgba(31, 38, 135, 0.37)'}}
+        onClick={e => e.stopPropagation()}
+      >
+        <button
+          className="absolute top-3 right-3 text-gray-700 hover:text-red-500 text-4xl font-extrabold transition-all duration-200"
+          onClick={onClose}
+          aria-label="Close"
+        >
+          ×
+        </button>
+        <h2 className="text-2xl font-bold mb-2 text-blue-900 text-center">{mode === 'signin' ? 'Sign in' : 'Create an account'}</h2>
+        <p className="text-sm text-gray-800 text-center mb-5">Summaries you make while signed in are saved to your library.</p>
+        <form className="flex flex-col gap-3" onSubmit={handleSubmit}>
+          <input
+            type="email"
+            value={email}
+            onChange={e => setEmail(e.target.value)}
+            placeholder="Email"
+            autoComplete="email"
+            required
+            className="px-3 py-2 rounded-lg bg-white/60 text-gray-900 placeholder-gray-500 border border-white/40 focus:outline-none focus:border-blue-400"
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            placeholder={mode === 'signup' ? 'Password (at least 8 characters)' : 'Password'}
+            autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+            required
+            className="px-3 py-2 rounded-lg bg-white/60 text-gray-900 placeholder-gray-500 border border-white/40 focus:outline-none focus:border-blue-400"
+          />
+          {error && (
+            <div className="p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
+              <p className="text-red-700 text-sm text-center">{error}</p>
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-60 text-white font-semibold shadow transition"
+          >
+            {loading ? 'Please wait...' : mode === 'signin' ? 'Sign in' : 'Sign up'}
+          </button>
+        </form>
+        <button
+          type="button"
+          className="mt-4 w-full text-sm text-blue-800 hover:underline"
+          onClick={() => {
+            setMode(mode === 'signin' ? 'signup' : 'signin');
+            setError('');
+          }}
+        >
+          {mode === 'signin' ? 'New here? Create an account' : 'Already have an account? Sign in'}
+        </button>
+      </div>
+      <style>{`
+        .animate-modal-pop {
+          animation: modalPopIn 0.5s cubic-bezier(0.23, 1, 0.32, 1);
+        }
+        @keyframes modalPopIn {
+          0% { opacity: 0; transform: translateY(-100px) scale(0.8); }
+          100% { opacity: 1; transform: translateY(0) scale(1); }
+        }
+      `}</style>
+    </div>,
+    document.body
+  );
+}
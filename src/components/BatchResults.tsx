@@ -0,0 +1,86 @@
+"use client";
+import type { BatchItemResult } from "@/lib/batch";
+import type { SummariseResponse } from "@/lib/pipeline";
+import type { DigestOverview } from "@/lib/digest";
+import { LANGUAGES } from "@/lib/languages";
+
+export interface BatchResultsProps {
+  results: BatchItemResult[];
+  // Feed digests: the feed title and the summary across all posts
+  heading?: string;
+  overview?: DigestOverview | null;
+  isNight: boolean;
+  onOpen: (result: SummariseResponse) => void;
+  onClose: () => void;
+}
+
+// Per-item outcome of a batch run; successful items open in the summary panel
+export default function BatchResults({ results, heading, overview, isNight, onOpen, onClose }: BatchResultsProps) {
+  const succeeded = results.filter(r => r.ok).length;
+  return (
+    <div className="mt-10 flex justify-center w-full">
+      <div className="relative backdrop-blur-md bg-white/10 rounded-xl p-6 shadow-2xl border border-white/20 max-w-4xl w-full">
+        <button
+          type="button"
+          aria-label="Close batch results"
+          onClick={onClose}
+          className="absolute top-3 right-3 text-white/80 hover:text-red-400 bg-white/10 hover:bg-white/30 rounded-full p-2 shadow border border-white/20 transition-all duration-200 focus:outline-none"
+        >
+          <svg width="18" height="18" viewBox="0 0 22 22" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round">
+            <line x1="6" y1="6" x2="16" y2="16" />
+            <line x1="16" y1="6" x2="6" y2="16" />
+          </svg>
+        </button>
+        <h2 className={`text-2xl font-bold text-center mb-4 ${isNight ? 'text-white' : 'text-gray-900'}`}>
+          {heading ? `${heading}: ` : 'Batch complete: '}{succeeded} of {results.length} summarised
+        </h2>
+        {overview && (
+          <div className="mb-5 p-4 rounded-lg bg-white/10 border border-white/20 space-y-3">
+            <p className={`text-xs font-bold uppercase tracking-wider ${isNight ? 'text-blue-200' : 'text-blue-700'}`}>Digest</p>
+            <p className={isNight ? 'text-white/90' : 'text-gray-800'}>{overview.summary}</p>
+            {Object.entries(overview.translations).map(([lang, text]) => (
+              <p
+                key={lang}
+                lang={lang}
+                dir={LANGUAGES[lang]?.dir ?? 'ltr'}
+                className={`${isNight ? 'text-white/90' : 'text-gray-800'} ${LANGUAGES[lang]?.dir === 'rtl' ? 'text-right' : ''}`}
+              >
+                {text}
+              </p>
+            ))}
+          </div>
+        )}
+        <ul className="space-y-3">
+          {results.map(item => (
+            <li
+              key={item.index}
+              className={`p-4 rounded-lg border ${item.ok ? 'bg-white/10 border-white/20' : 'bg-red-500/20 border-red-500/30'}`}
+            >
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <p className={`font-semibold truncate ${isNight ? 'text-white' : 'text-gray-900'}`}>
+                    {item.ok ? item.result.metadata?.title || item.input : item.input}
+                  </p>
+                  {item.ok ? (
+                    <p className={`text-sm line-clamp-2 ${isNight ? 'text-white/80' : 'text-gray-700'}`}>{item.result.summary}</p>
+                  ) : (
+                    <p className="text-sm text-red-200">{item.error}</p>
+                  )}
+                </div>
+                {item.ok && (
+                  <button
+                    type="button"
+                    onClick={() => onOpen(item.result)}
+                    className="px-3 py-1 rounded-lg bg-blue-500 hover:bg-blue-600 text-white text-sm font-bold shadow transition"
+                  >
+                    Open
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import type { StoredSummary } from "@/lib/history";
+import { listSummaries } from "@/lib/api";
+
+export interface HistoryDrawerProps {
+  open: boolean;
+  isNight: boolean;
+  onClose: () => void;
+  onSelect: (item: StoredSummary) => void;
+}
+
+const PAGE_SIZE = 10;
+
+export default function HistoryDrawer({ open, isNight, onClose, onSelect }: HistoryDrawerProps) {
+  const [items, setItems] = useState<StoredSummary[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [domain, setDomain] = useState('');
+  // The filter as typed, for reopening the drawer without re-running the effect on every keystroke
+  const domainRef = useRef('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPage = useCallback(async (pageToLoad: number, domainFilter: string) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await listSummaries({ page: pageToLoad, limit: PAGE_SIZE, domain: domainFilter.trim() });
+      setItems(prev => (pageToLoad === 1 ? result.items : [...prev, ...result.items]));
+      setPage(result.page);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Refresh from the first page every time the drawer opens
+  useEffect(() => {
+    if (open) loadPage(1, domainRef.current);
+  }, [open, loadPage]);
+
+  if (!open || typeof window === 'undefined') return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[1000] flex justify-end bg-black/30 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="animate-drawer-in h-full w-full max-w-md bg-white/40 backdrop-blur-2xl border-l border-white/30 shadow-2xl p-6 flex flex-col"
+        style={{boxShadow: '0 8px 32px 0 rgba(31, 38, 135, 0.37)'}}
+        onClick={e => e.stopPropagation()}
+        aria-label="Summary history"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-blue-900">History</h2>
+          <button
+            className="text-gray-700 hover:text-red-500 text-4xl font-extrabold transition-all duration-200"
+            onClick={onClose}
+            aria-label="Close history"
+          >
+            ×
+          </button>
+        </div>
+        <form
+          className="flex gap-2 mb-4"
+          onSubmit={e => {
+            e.preventDefault();
+            loadPage(1, domain);
+          }}
+        >
+          <input
+            type="text"
+            value={domain}
+            onChange={e => {
+              setDomain(e.target.value);
+              domainRef.current = e.target.value;
+            }}
+            placeholder="Filter by domain, e.g. medium.com"
+            className="flex-1 px-3 py-2 rounded-lg bg-white/60 text-gray-900 placeholder-gray-500 border border-white/40 focus:outline-none focus:border-blue-400"
+          />
+          <button type="submit" className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold shadow transition">
+            Filter
+          </button>
+        </form>
+        {error && (
+          <div className="mb-3 p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
+            <p className="text-red-700 text-sm text-center">{error}</p>
+          </div>
+        )}
+        <ul className="flex-1 overflow-y-auto space-y-3 pr-1">
+          {items.map(item => (
+            <li key={item.id}>
+              <button
+                type="button"
+                onClick={() => onSelect(item)}
+                className="w-full text-left p-3 rounded-xl bg-white/50 hover:bg-white/80 border border-white/40 shadow transition"
+              >
+                <p className="text-xs font-bold uppercase tracking-wider text-blue-700">
+                  {item.metadata?.siteName || item.domain || 'Pasted text'} · {new Date(item.createdAt).toLocaleDateString()}
+                </p>
+                <p className="font-semibold text-gray-900 truncate">{item.metadata?.title || item.url || item.summary.slice(0, 60)}</p>
+                <p className="text-sm text-gray-700 line-clamp-2">{item.summary}</p>
+              </button>
+            </li>
+          ))}
+          {!loading && items.length === 0 && !error && (
+            <li className={`text-center text-sm ${isNight ? 'text-white/80' : 'text-gray-700'}`}>No summaries yet.</li>
+          )}
+        </ul>
+        {loading && <p className="text-center text-sm text-gray-700 py-3">Loading...</p>}
+        {hasMore && !loading && (
+          <button
+            type="button"
+            onClick={() => loadPage(page + 1, domain)}
+            className="mt-3 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-900 text-white font-semibold shadow transition"
+          >
+            Load more
+          </button>
+        )}
+      </aside>
+      <style>{`
+        .animate-drawer-in {
+          animation: drawerIn 0.4s cubic-bezier(0.23, 1, 0.32, 1);
+        }
+        @keyframes drawerIn {
+          0% { opacity: 0; transform: translateX(100px); }
+          100% { opacity: 1; transform: translateX(0); }
+        }
+      `}</style>
+    </div>,
+    document.body
+  );
+}
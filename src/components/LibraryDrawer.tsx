@@ -0,0 +1,227 @@
+"use client";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import type { StoredSummary } from "@/lib/history";
+import { deleteLibraryItem, listLibrary, updateLibraryItem } from "@/lib/api";
+
+export interface LibraryDrawerProps {
+  open: boolean;
+  isNight: boolean;
+  onClose: () => void;
+  onSelect: (item: StoredSummary) => void;
+}
+
+const PAGE_SIZE = 10;
+
+// The signed-in user's own summaries, with tags, stars and delete
+export default function LibraryDrawer({ open, isNight, onClose, onSelect }: LibraryDrawerProps) {
+  const [items, setItems] = useState<StoredSummary[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [tag, setTag] = useState('');
+  const [starredOnly, setStarredOnly] = useState(false);
+  // The filter as set, for reopening the drawer without re-running the effect on every change
+  const filterRef = useRef({ tag: '', starred: false });
+  // Tag being typed for each item, by id
+  const [newTags, setNewTags] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadPage = useCallback(async (pageToLoad: number, tagFilter: string, starred: boolean) => {
+    setLoading(true);
+    setError('');
+    try {
+      const result = await listLibrary({ page: pageToLoad, limit: PAGE_SIZE, tag: tagFilter.trim(), starred });
+      setItems(prev => (pageToLoad === 1 ? result.items : [...prev, ...result.items]));
+      setPage(result.page);
+      setHasMore(result.hasMore);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your library');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Refresh from the first page every time the drawer opens
+  useEffect(() => {
+    if (open) loadPage(1, filterRef.current.tag, filterRef.current.starred);
+  }, [open, loadPage]);
+
+  const changeTag = (value: string) => {
+    setTag(value);
+    filterRef.current.tag = value;
+  };
+
+  const update = async (item: StoredSummary, change: { tags?: string[]; starred?: boolean }) => {
+    setError('');
+    try {
+      const updated = await updateLibraryItem(item.id, change);
+      setItems(prev => prev.map(i => (i.id === updated.id ? updated : i)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the summary');
+    }
+  };
+
+  const addTag = (item: StoredSummary) => {
+    const value = (newTags[item.id] || '').trim();
+    if (!value) return;
+    setNewTags(prev => ({ ...prev, [item.id]: '' }));
+    update(item, { tags: [...item.tags, value] });
+  };
+
+  const remove = async (item: StoredSummary) => {
+    if (!window.confirm('Delete this summary from your library?')) return;
+    setError('');
+    try {
+      await deleteLibraryItem(item.id);
+      setItems(prev => prev.filter(i => i.id !== item.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete the summary');
+    }
+  };
+
+  if (!open || typeof window === 'undefined') return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[1000] flex justify-end bg-black/30 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        className="animate-drawer-in h-full w-full max-w-md bg-white/40 backdrop-blur-2xl border-l border-white/30 shadow-2xl p-6 flex flex-col"
+        style={{boxShadow: '0 8px 32px 0 rgba(31, 38, 135, 0.37)'}}
+        onClick={e => e.stopPropagation()}
+        aria-label="My library"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-2xl font-bold text-blue-900">My library</h2>
+          <button
+            className="text-gray-700 hover:text-red-500 text-4xl font-extrabold transition-all duration-200"
+            onClick={onClose}
+            aria-label="Close library"
+          >
+            ×
+          </button>
+        </div>
+        <form
+          className="flex gap-2 mb-4 items-center"
+          onSubmit={e => {
+            e.preventDefault();
+            loadPage(1, tag, starredOnly);
+          }}
+        >
+          <input
+            type="text"
+            value={tag}
+            onChange={e => changeTag(e.target.value)}
+            placeholder="Filter by tag"
+            className="flex-1 min-w-0 px-3 py-2 rounded-lg bg-white/60 text-gray-900 placeholder-gray-500 border border-white/40 focus:outline-none focus:border-blue-400"
+          />
+          <label className="flex items-center gap-1 text-sm font-semibold text-gray-900 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={starredOnly}
+              onChange={e => {
+                setStarredOnly(e.target.checked);
+                filterRef.current.starred = e.target.checked;
+                loadPage(1, tag, e.target.checked);
+              }}
+            />
+            ★ only
+          </label>
+          <button type="submit" className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold shadow transition">
+            Filter
+          </button>
+        </form>
+        {error && (
+          <div className="mb-3 p-3 bg-red-500/20 border border-red-500/30 rounded-lg">
+            <p className="text-red-700 text-sm text-center">{error}</p>
+          </div>
+        )}
+        <ul className="flex-1 overflow-y-auto space-y-3 pr-1">
+          {items.map(item => (
+            <li key={item.id} className="p-3 rounded-xl bg-white/50 border border-white/40 shadow">
+              <div className="flex items-start gap-2">
+                <button type="button" onClick={() => onSelect(item)} className="flex-1 min-w-0 text-left hover:opacity-80 transition">
+                  <p className="text-xs font-bold uppercase tracking-wider text-blue-700">
+                    {item.metadata?.siteName || item.domain || 'Pasted text'} · {new Date(item.createdAt).toLocaleDateString()}
+                  </p>
+                  <p className="font-semibold text-gray-900 truncate">{item.metadata?.title || item.url || item.summary.slice(0, 60)}</p>
+                  <p className="text-sm text-gray-700 line-clamp-2">{item.summary}</p>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => update(item, { starred: !item.starred })}
+                  className={`text-xl leading-none ${item.starred ? 'text-yellow-500' : 'text-gray-500 hover:text-yellow-500'}`}
+                  aria-label={item.starred ? 'Unstar' : 'Star'}
+                >
+                  {item.starred ? '★' : '☆'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => remove(item)}
+                  className="text-gray-600 hover:text-red-500 text-xl leading-none"
+                  aria-label="Delete"
+                >
+                  🗑
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-1 mt-2">
+                {item.tags.map(t => (
+                  <span key={t} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-600/15 text-blue-900 text-xs font-semibold">
+                    <button type="button" onClick={() => { changeTag(t); loadPage(1, t, starredOnly); }}>#{t}</button>
+                    <button
+                      type="button"
+                      onClick={() => update(item, { tags: item.tags.filter(x => x !== t) })}
+                      className="hover:text-red-600"
+                      aria-label={`Remove tag ${t}`}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+                <form
+                  onSubmit={e => {
+                    e.preventDefault();
+                    addTag(item);
+                  }}
+                >
+                  <input
+                    type="text"
+                    value={newTags[item.id] || ''}
+                    onChange={e => setNewTags(prev => ({ ...prev, [item.id]: e.target.value }))}
+                    placeholder="+ tag"
+                    maxLength={32}
+                    className="w-20 px-2 py-0.5 rounded-full bg-white/60 text-gray-900 placeholder-gray-500 text-xs border border-white/40 focus:outline-none focus:border-blue-400"
+                  />
+                </form>
+              </div>
+            </li>
+          ))}
+          {!loading && items.length === 0 && !error && (
+            <li className={`text-center text-sm ${isNight ? 'text-white/80' : 'text-gray-700'}`}>
+              {tag || starredOnly ? 'Nothing matches this filter.' : 'Summaries you make while signed in will appear here.'}
+            </li>
+          )}
+        </ul>
+        {loading && <p className="text-center text-sm text-gray-700 py-3">Loading...</p>}
+        {hasMore && !loading && (
+          <button
+            type="button"
+            onClick={() => loadPage(page + 1, tag, starredOnly)}
+            className="mt-3 px-4 py-2 rounded-lg bg-gray-800 hover:bg-gray-900 text-white font-semibold shadow transition"
+          >
+            Load more
+          </button>
+        )}
+      </aside>
+      <style>{`
+        .animate-drawer-in {
+          animation: drawerIn 0.4s cubic-bezier(0.23, 1, 0.32, 1);
+        }
+        @keyframes drawerIn {
+          0% { opacity: 0; transform: translateX(100px); }
+          100% { opacity: 1; transform: translateX(0); }
+        }
+      `}</style>
+    </div>,
+    document.body
+  );
+}
@@ -1,14 +1,45 @@
 "use client";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { createPortal } from "react-dom";
+import SearchBox from "./SearchBox";
+import AuthModal from "./AuthModal";
+import LibraryDrawer from "./LibraryDrawer";
+import type { StoredSummary } from "@/lib/history";
+import type { User } from "@/lib/users";
+import { getCurrentUser, signOut } from "@/lib/api";
 
 export interface NavbarProps {
   isNight: boolean;
   onToggleTheme: () => void;
+  onOpenHistory?: () => void;
+  // Opens a stored summary picked from search results or the library; also turns on accounts
+  onOpenSummary?: (item: StoredSummary) => void;
 }
 
-export default function Navbar({ isNight, onToggleTheme }: NavbarProps) {
+export default function Navbar({ isNight, onToggleTheme, onOpenHistory, onOpenSummary }: NavbarProps) {
   const [aboutOpen, setAboutOpen] = useState(false);
+  const [user, setUser] = useState<User | null>(null);
+  const [authOpen, setAuthOpen] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+
+  // Pick up an existing session cookie
+  const accountsEnabled = !!onOpenSummary;
+  useEffect(() => {
+    if (!accountsEnabled) return;
+    getCurrentUser().then(({ user }) => setUser(user)).catch(() => setUser(null));
+  }, [accountsEnabled]);
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } finally {
+      setUser(null);
+      setLibraryOpen(false);
+    }
+  };
+
+  const linkClass = `font-semibold px-3 py-1 rounded transition ${isNight ? 'text-white/90 hover:text-blue-300' : 'text-black hover:text-blue-700'}`;
+
   return (
     <>
       <nav className="w-full flex items-center justify-between px-8 py-4 bg-white/10 backdrop-blur-3xl border-b border-white/15 fixed top-0 left-0 z-50 shadow-none" style={{boxShadow: '0 2px 24px 0 rgba(31,38,135,0.08)'}}>
@@ -49,8 +80,9 @@ export default function Navbar({ isNight, onToggleTheme }: NavbarProps) {
             `}</style>
           </span>
         </div>
-        {/* Right: About Us only */}
+        {/* Right: Search, theme toggle, History, account and About Us */}
         <div className="flex items-center gap-4">
+          {onOpenSummary && <SearchBox isNight={isNight} onOpenSummary={onOpenSummary} />}
           <button
             className="w-10 h-10 flex items-center justify-center rounded-full bg-white/60 hover:bg-white/80 shadow border border-white/30 transition-all duration-200 focus:outline-none"
             onClick={onToggleTheme}
@@ -78,14 +110,49 @@ export default function Navbar({ isNight, onToggleTheme }: NavbarProps) {
               </svg>
             )}
           </button>
-          <button
-            className={`font-semibold px-3 py-1 rounded transition ${isNight ? 'text-white/90 hover:text-blue-300' : 'text-black hover:text-blue-700'}`}
-            onClick={() => setAboutOpen(true)}
-          >
+          {onOpenHistory && (
+            <button className={linkClass} onClick={onOpenHistory}>
+              History
+            </button>
+          )}
+          {onOpenSummary && (user ? (
+            <>
+              <button className={linkClass} onClick={() => setLibraryOpen(true)}>
+                My library
+              </button>
+              <button className={linkClass} onClick={handleSignOut} title={`Signed in as ${user.email}`}>
+                Sign out
+              </button>
+            </>
+          ) : (
+            <button className={linkClass} onClick={() => setAuthOpen(true)}>
+              Sign in
+            </button>
+          ))}
+          <button className={linkClass} onClick={() => setAboutOpen(true)}>
             About Us
           </button>
         </div>
       </nav>
+      <AuthModal
+        open={authOpen}
+        onClose={() => setAuthOpen(false)}
+        onSignedIn={signedIn => {
+          setUser(signedIn);
+          setAuthOpen(false);
+        }}
+      />
+      {onOpenSummary && user && (
+        <LibraryDrawer
+          open={libraryOpen}
+          isNight={isNight}
+          onClose={() => setLibraryOpen(false)}
+          onSelect={item => {
+            setLibraryOpen(false);
+            onOpenSummary(item);
+          }}
+        />
+      )}
       {/* About Us Modal rendered via portal at document.body */}
       {aboutOpen && typeof window !== 'undefined' && createPortal(
         <div className="fixed inset-0 z-[1000] flex items-center justify-center bg-black/30 backdrop-blur-sm">
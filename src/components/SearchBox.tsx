@@ -0,0 +1,107 @@
+"use client";
+import { useState } from "react";
+import type { SearchHit } from "@/lib/search";
+import type { StoredSummary } from "@/lib/history";
+import { getSummary, searchSummaries } from "@/lib/api";
+
+export interface SearchBoxProps {
+  isNight: boolean;
+  onOpenSummary: (item: StoredSummary) => void;
+}
+
+// Splits a snippet into plain and <mark>ed parts using the hit's highlight offsets
+function HighlightedSnippet({ snippet, highlights }: Pick<SearchHit, 'snippet' | 'highlights'>) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(snippet.slice(cursor, start));
+    parts.push(<mark key={i} className="bg-yellow-200 text-gray-900 rounded px-0.5">{snippet.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(snippet.slice(cursor));
+  return <>{parts}</>;
+}
+
+export default function SearchBox({ isNight, onOpenSummary }: SearchBoxProps) {
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSearch = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setLoading(true);
+    setError('');
+    try {
+      const { hits } = await searchSummaries(query.trim());
+      setHits(hits);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+      setHits([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpen = async (hit: SearchHit) => {
+    if (!hit.summaryId) return;
+    try {
+      const summary = await getSummary(hit.summaryId);
+      setHits(null);
+      onOpenSummary(summary);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to open summary');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <form onSubmit={handleSearch} role="search">
+        <input
+          type="search"
+          value={query}
+          onChange={e => setQuery(e.target.value)}
+          placeholder="Search summaries..."
+          aria-label="Search stored blogs and summaries"
+          className={`w-44 md:w-64 px-3 py-1.5 rounded-full border border-white/30 bg-white/40 focus:bg-white/70 focus:outline-none transition-all duration-200 text-sm ${isNight ? 'text-white placeholder-white/70 focus:text-gray-900' : 'text-gray-900 placeholder-gray-600'}`}
+        />
+      </form>
+      {(hits !== null || loading) && (
+        <div className="absolute right-0 mt-2 w-[22rem] max-h-[70vh] overflow-y-auto bg-white/70 backdrop-blur-2xl rounded-2xl shadow-2xl border border-white/30 p-3 z-[60]">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-xs font-bold uppercase tracking-wider text-blue-700">
+              {loading ? 'Searching...' : `${hits?.length ?? 0} result${hits?.length === 1 ? '' : 's'}`}
+            </p>
+            <button
+              type="button"
+              className="text-gray-700 hover:text-red-500 text-xl font-extrabold"
+              onClick={() => setHits(null)}
+              aria-label="Close search results"
+            >
+              ×
+            </button>
+          </div>
+          {error && <p className="text-red-700 text-sm mb-2">{error}</p>}
+          <ul className="space-y-2">
+            {hits?.map(hit => (
+              <li key={hit.id}>
+                <button
+                  type="button"
+                  onClick={() => handleOpen(hit)}
+                  disabled={!hit.summaryId}
+                  className="w-full text-left p-2 rounded-lg bg-white/60 hover:bg-white/90 border border-white/40 transition disabled:cursor-default"
+                >
+                  <p className="font-semibold text-gray-900 truncate">{hit.title || hit.url || 'Pasted text'}</p>
+                  <p className="text-sm text-gray-700">
+                    <HighlightedSnippet snippet={hit.snippet} highlights={hit.highlights} />
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
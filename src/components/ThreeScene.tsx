@@ -2,14 +2,46 @@
 
 import { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import * as THREE from 'three';
+import Image from 'next/image';
 import Navbar from "./Navbar";
+import HistoryDrawer from "./HistoryDrawer";
+import BatchResults from "./BatchResults";
+import { DEFAULT_LANGUAGES, LANGUAGES } from '@/lib/languages';
+import type { SelectedSentence, SentenceOrder, SummaryAlgorithm, SummaryLength } from '@/lib/summarizer';
+import type { ArticleMetadata } from '@/lib/extractor';
+import type { StoredSummary } from '@/lib/history';
+import type { PipelineStage, SummariseResponse } from '@/lib/pipeline';
+import type { BatchItemResult } from '@/lib/batch';
+import type { DigestOverview } from '@/lib/digest';
+import type { ErrorCode } from '@/lib/errors';
 
 interface ThreeSceneProps {
-  onSubmit: (data: { mode: "text" | "url"; value: string }) => Promise<void>;
+  onSubmit: (data: { mode: "text" | "url" | "batch" | "feed" | "file"; value: string; file?: File; languages: string[]; length: SummaryLength; order: SentenceOrder; algorithm: SummaryAlgorithm; background: boolean }) => Promise<void>;
   loadingStage: 0 | 1 | 2 | 3;
+  // Pipeline stage reported by the streaming API, when available
+  progressStage?: PipelineStage | null;
   summary?: string;
-  urduSummary?: string;
+  // Where each summary sentence came from in the source text
+  sentences?: SelectedSentence[];
+  totalSentences?: number;
+  // Page metadata, present when the summary came from a URL
+  metadata?: ArticleMetadata | null;
+  translations?: Record<string, string>;
   error?: string;
+  // Code of the API error, used to explain it and offer a way forward
+  errorCode?: ErrorCode | null;
+  // Resubmit the last input; withoutTranslation asks for the English summary only
+  onRetry?: (options?: { withoutTranslation?: boolean }) => void;
+  // Reopen a stored summary from the history drawer
+  onOpenSummary?: (item: StoredSummary) => void;
+  // Per-item results of the last batch run
+  batchResults?: BatchItemResult[] | null;
+  onOpenBatchResult?: (result: SummariseResponse) => void;
+  onCloseBatch?: () => void;
+  // Feed digest shown above the batch results: feed title and the combined summary
+  digest?: { title: string; overview: DigestOverview | null } | null;
+  // Id of a background job still being processed (kept across reloads)
+  pendingJobId?: string | null;
 }
 
 // Typing effect hook
@@ -37,6 +69,52 @@ function useTypewriter(text: string, enabled: boolean, speed: number = 18) {
   return displayed;
 }
 
+// Loading message for each streamed pipeline stage
+const STAGE_MESSAGES: Record<PipelineStage, string> = {
+  fetching: 'Fetching the page...',
+  extracting: 'Extracting article content...',
+  summarizing: 'Summarizing...',
+  translating: 'Translating...',
+  saving: 'Saving...',
+};
+
+type ErrorAction = 'retry' | 'retry-without-translation' | 'use-text' | 'use-file';
+
+// Extra guidance, and a follow-up action, for the error codes a user can do something about
+const ERROR_HINTS: Partial<Record<ErrorCode, { hint: string; action?: ErrorAction }>> = {
+  FETCH_TIMEOUT: { hint: 'The site took too long to respond. It may be busy right now.', action: 'retry' },
+  FETCH_FAILED: { hint: 'We could not reach the site.', action: 'retry' },
+  PAGE_NOT_FOUND: { hint: 'Check the link: the page may have moved or been removed.' },
+  INVALID_URL: { hint: 'Check the link for typos. It should start with http:// or https://.' },
+  BLOCKED_URL: { hint: 'This address cannot be fetched. Use a public http(s) link.' },
+  NOT_HTML: { hint: 'That link is not a web page. If it is a PDF or document, upload the file instead.', action: 'use-file' },
+  CONTENT_TOO_SHORT: { hint: 'There was not enough article text to summarise. Try pasting the text directly.', action: 'use-text' },
+  CONTENT_TOO_LARGE: { hint: 'Paste just the part you want summarised instead.', action: 'use-text' },
+  UNSUPPORTED_FILE: { hint: 'Supported files are PDF, DOCX, Markdown, HTML and TXT.' },
+  UNREADABLE_FILE: { hint: 'The file may be scanned, encrypted or damaged. Try pasting its text instead.', action: 'use-text' },
+  TRANSLATION_UNAVAILABLE: { hint: 'Translation is unavailable right now, but the English summary can still be made.', action: 'retry-without-translation' },
+  UNAUTHORIZED: { hint: 'This server only accepts requests made with an API key.' },
+  RATE_LIMITED: { hint: 'You have sent a lot of summaries in a short time. Wait a little, then try again.' },
+  INTERNAL: { hint: 'Something went wrong on our side.', action: 'retry' },
+};
+
+const ERROR_ACTION_LABELS: Record<ErrorAction, string> = {
+  retry: 'Try again',
+  'retry-without-translation': 'Retry without translation',
+  'use-text': 'Paste text instead',
+  'use-file': 'Upload a file instead',
+};
+
+// Files the upload mode accepts (see src/lib/documents.ts)
+const UPLOAD_ACCEPT = '.pdf,.docx,.md,.markdown,.html,.htm,.txt';
+
+// Slider range per summary length mode
+const LENGTH_SLIDERS: Record<SummaryLength['mode'], { label: string; min: number; max: number; step: number; initial: number; format: (v: number) => string }> = {
+  sentences: { label: 'Sentences', min: 1, max: 10, step: 1, initial: 3, format: v => `${v} sentence${v === 1 ? '' : 's'}` },
+  words: { label: 'Words', min: 25, max: 500, step: 25, initial: 100, format: v => `~${v} words` },
+  ratio: { label: '%', min: 5, max: 60, step: 5, initial: 20, format: v => `${v}% of original` },
+};
+
 // Helper to get first N lines of a string
 function getFirstLines(text: string, n: number) {
   if (!text) return '';
@@ -44,32 +122,134 @@ function getFirstLines(text: string, n: number) {
   return lines.slice(0, n).join(' ');
 }
 
-export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummary, error }: ThreeSceneProps) {
+interface TranslationPanelProps {
+  lang: string;
+  text: string;
+  typing: boolean;
+  expanded: boolean;
+  copied: boolean;
+  isNight: boolean;
+  onCopy: () => void;
+}
+
+// Header card with the source article's title, author, date and site
+function ArticleHeaderCard({ metadata, isNight }: { metadata: ArticleMetadata; isNight: boolean }) {
+  const published = metadata.publishedAt ? new Date(metadata.publishedAt) : null;
+  const details = [
+    metadata.author,
+    published && !isNaN(published.getTime()) ? published.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }) : null,
+    metadata.language ? metadata.language.toUpperCase() : null,
+    `${metadata.wordCount.toLocaleString()} words`,
+  ].filter(Boolean);
+  return (
+    <div className="w-full flex items-center gap-4 mb-5 p-3 rounded-lg bg-white/10 border border-white/20">
+      {metadata.leadImage && (
+        // Lead images come from any site, so they are loaded as-is rather than through the image optimizer
+        <Image src={metadata.leadImage} alt="" width={80} height={80} unoptimized className="w-20 h-20 object-cover rounded-md flex-shrink-0" />
+      )}
+      <div className="min-w-0 flex-1">
+        {metadata.siteName && (
+          <p className={`text-xs font-bold uppercase tracking-wider ${isNight ? 'text-blue-200' : 'text-blue-700'}`}>{metadata.siteName}</p>
+        )}
+        <a
+          href={metadata.canonicalUrl || undefined}
+          target="_blank"
+          rel="noopener noreferrer"
+          className={`block text-lg font-bold truncate hover:underline ${isNight ? 'text-white' : 'text-gray-900'}`}
+          title={metadata.title}
+        >
+          {metadata.title || metadata.canonicalUrl}
+        </a>
+        <p className={`text-sm ${isNight ? 'text-white/70' : 'text-gray-700'}`}>{details.join(' · ')}</p>
+      </div>
+    </div>
+  );
+}
+
+// One translated summary, typed out with the language's own text direction
+function TranslationPanel({ lang, text, typing, expanded, copied, isNight, onCopy }: TranslationPanelProps) {
+  const typed = useTypewriter(text, typing, 22);
+  const info = LANGUAGES[lang];
+  return (
+    <div className="flex flex-col items-center">
+      <div className="flex items-center gap-2 mb-2">
+        <h3 className="text-lg font-semibold text-purple-300" lang={lang} dir={info?.dir}>{info?.summaryLabel ?? lang}</h3>
+        <button
+          type="button"
+          aria-label={`Copy ${info?.name ?? lang} summary`}
+          onClick={onCopy}
+          className="bg-white/20 hover:bg-white/40 text-purple-400 hover:text-purple-600 rounded-full p-1.5 shadow transition-all duration-200 border border-white/30 focus:outline-none flex items-center"
+          style={{backdropFilter:'blur(6px)', WebkitBackdropFilter:'blur(6px)'}}
+          disabled={!text}
+        >
+          {copied ? (
+            <span className="text-xs font-bold text-purple-500 px-2">Copied!</span>
+          ) : (
+            <svg width="18" height="18" viewBox="0 0 20 20" fill="none" stroke="currentColor" strokeWidth="1.7" strokeLinecap="round" strokeLinejoin="round">
+              <rect x="7" y="7" width="9" height="9" rx="2.5"/>
+              <path d="M4.5 13V4.5A2.5 2.5 0 0 1 7 2h6.5"/>
+            </svg>
+          )}
+        </button>
+      </div>
+      <div className="relative w-full flex flex-col items-center">
+        <p
+          className={`leading-relaxed text-center min-h-[60px] text-base md:text-lg ${isNight ? 'text-white/90' : 'text-gray-800'} transition-all duration-300`}
+          lang={lang}
+          dir={info?.dir ?? 'auto'}
+          style={{wordBreak:'break-word', fontFamily:'Geist, Arial, sans-serif', maxHeight: expanded ? '1000px' : '3.8em', overflow: 'hidden'}}
+        >
+          {expanded ? typed : getFirstLines(typed, 2)}
+        </p>
+      </div>
+    </div>
+  );
+}
+
+export default function ThreeScene({ onSubmit, loadingStage, progressStage, summary, sentences, totalSentences, metadata, translations, error, errorCode, onRetry, onOpenSummary, batchResults, onOpenBatchResult, onCloseBatch, digest, pendingJobId }: ThreeSceneProps) {
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const animationRef = useRef<number | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const [text, setText] = useState('');
-  const [inputMode, setInputMode] = useState<'text'|'url'>('text');
+  const [inputMode, setInputMode] = useState<'text'|'url'|'batch'|'feed'|'file'>('text');
+  const [batchText, setBatchText] = useState('');
   const [url, setUrl] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [languages, setLanguages] = useState<string[]>(DEFAULT_LANGUAGES);
+  const [lengthMode, setLengthMode] = useState<SummaryLength['mode']>('sentences');
+  const [lengthValue, setLengthValue] = useState(LENGTH_SLIDERS.sentences.initial);
+  const [order, setOrder] = useState<SentenceOrder>('document');
+  const [algorithm, setAlgorithm] = useState<SummaryAlgorithm>('frequency');
+  const [background, setBackground] = useState(false);
+  const handleLengthMode = (mode: SummaryLength['mode']) => {
+    setLengthMode(mode);
+    setLengthValue(LENGTH_SLIDERS[mode].initial);
+  };
+  const toggleLanguage = (code: string) => {
+    setLanguages(prev => prev.includes(code) ? prev.filter(l => l !== code) : [...prev, code]);
+  };
   const [isNight, setIsNight] = useState(() => {
     const hour = new Date().getHours();
     return hour < 6 || hour >= 18;
   });
 
   // Add state to control minimized input panel
-  const showSummary = !!(summary && urduSummary && loadingStage !== 1 && loadingStage !== 2);
+  const translationEntries = useMemo(() => Object.entries(translations || {}), [translations]);
+  // First translation drives the 3D cards
+  const primaryTranslation = translationEntries[0]?.[1] || '';
+  // The English summary shows as soon as it streams in; translations fill in as they arrive
+  const showSummary = !!(summary && loadingStage !== 1 && (translationEntries.length > 0 || loadingStage >= 2));
   const [inputMinimized, setInputMinimized] = useState(false);
   // Typing effect for summary/translation
   const [startTyping, setStartTyping] = useState(false);
   const typedSummary = useTypewriter(summary || '', showSummary && startTyping, 16);
-  const typedUrdu = useTypewriter(urduSummary || '', showSummary && startTyping, 22);
-  // Copy feedback state
-  const [copied, setCopied] = useState<'none'|'en'|'ur'>('none');
-  // Expand/collapse state for both summary and urdu
+  // Copy feedback state ('en' or a translation language code)
+  const [copied, setCopied] = useState<string>('none');
+  // Expand/collapse state for the summary and all translations
   const [expandBoth, setExpandBoth] = useState(false);
-  const handleCopy = (text: string, which: 'en'|'ur') => {
+  const handleCopy = (text: string, which: string) => {
     navigator.clipboard.writeText(text);
     setCopied(which);
     setTimeout(() => setCopied('none'), 1500);
@@ -86,7 +266,7 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
       setText('');
       // Clear summaries so the box is hidden until new text is provided
       if (typeof window !== 'undefined') {
-        // If parent manages summary/urduSummary, notify parent to clear them
+        // If parent manages summary/translations, notify parent to clear them
         const event = new CustomEvent('clearSummaries');
         window.dispatchEvent(event);
       }
@@ -116,6 +296,12 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
     }
   }, [showSummary]);
 
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const handleOpenStoredSummary = (item: StoredSummary) => {
+    setHistoryOpen(false);
+    onOpenSummary?.(item);
+  };
+
   // Handle theme toggle
   const handleToggleTheme = () => setIsNight((prev: boolean) => !prev);
 
@@ -704,7 +890,7 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
     scene.add(englishCard);
 
     const urduCard = createSummaryCard(
-      urduSummary || 'اردو کا خلاصہ یہاں ظاہر ہوگا...',
+      primaryTranslation || 'اردو کا خلاصہ یہاں ظاہر ہوگا...',
       new THREE.Vector3(2, 0, 0),
       0x8e44ad
     );
@@ -750,7 +936,9 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
     // Add cards to carousel
     const cards = [
       createCarouselCard(summary || 'English summary will appear here...', 0x2c3e50),
-      createCarouselCard(urduSummary || 'اردو کا خلاصہ یہاں ظاہر ہوگا...', 0x8e44ad),
+      ...(translationEntries.length > 0
+        ? translationEntries.map(([, translated]) => createCarouselCard(translated, 0x8e44ad))
+        : [createCarouselCard('اردو کا خلاصہ یہاں ظاہر ہوگا...', 0x8e44ad)]),
     ];
     cards.forEach((card, i) => {
       const angle = (i / cards.length) * Math.PI * 2;
@@ -1399,17 +1587,29 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
       }
       rendererRef.current?.dispose();
     };
-  }, [showSummary, interactiveBubbles, shootingStars, spawnInteractiveBubble, spawnShootingStar, handleMountClick, isNight, summary, urduSummary]);
+  }, [showSummary, interactiveBubbles, shootingStars, spawnInteractiveBubble, spawnShootingStar, handleMountClick, isNight, summary, primaryTranslation, translationEntries]);
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
+    const length: SummaryLength = { mode: lengthMode, value: lengthMode === 'ratio' ? lengthValue / 100 : lengthValue };
     if (inputMode === 'text' && text.trim()) {
-      await onSubmit({ mode: inputMode, value: text.trim() });
-    } else if (inputMode === 'url' && url.trim()) {
-      await onSubmit({ mode: inputMode, value: url.trim() });
+      await onSubmit({ mode: inputMode, value: text.trim(), languages, length, order, algorithm, background });
+    } else if ((inputMode === 'url' || inputMode === 'feed') && url.trim()) {
+      await onSubmit({ mode: inputMode, value: url.trim(), languages, length, order, algorithm, background });
+    } else if (inputMode === 'file' && file) {
+      await onSubmit({ mode: inputMode, value: file.name, file, languages, length, order, algorithm, background: false });
+    } else if (inputMode === 'batch' && batchText.trim()) {
+      await onSubmit({ mode: inputMode, value: batchText.trim(), languages, length, order, algorithm, background });
     }
   };
 
+  const errorHint = errorCode ? ERROR_HINTS[errorCode] : undefined;
+  const handleErrorAction = (action: ErrorAction) => {
+    if (action === 'retry') onRetry?.();
+    else if (action === 'retry-without-translation') onRetry?.({ withoutTranslation: true });
+    else setInputMode(action === 'use-text' ? 'text' : 'file');
+  };
+
   // Glow state for Nexium badge
   const [nexiumGlow, setNexiumGlow] = useState(false);
   const handleNexiumGlow = () => {
@@ -1422,6 +1622,12 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
 
   // Loading indicators for each stage
   const renderLoading = () => {
+    if (pendingJobId && loadingStage === 1 && !progressStage) {
+      return <div className="flex justify-center items-center py-4"><span className="loader" /> <span className="ml-2">Queued in the background...</span></div>;
+    }
+    if (progressStage && (loadingStage === 1 || loadingStage === 2)) {
+      return <div className="flex justify-center items-center py-4"><span className="loader" /> <span className="ml-2">{STAGE_MESSAGES[progressStage]}</span></div>;
+    }
     if (loadingStage === 1) return <div className="flex justify-center items-center py-4"><span className="loader" /> <span className="ml-2">Sending text to API...</span></div>;
     if (loadingStage === 2) return <div className="flex justify-center items-center py-4"><span className="loader" /> <span className="ml-2">Translating...</span></div>;
     if (loadingStage === 3) return <div className="flex justify-center items-center py-4"><span className="loader done" /> <span className="ml-2">Complete!</span></div>;
@@ -1430,7 +1636,13 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
 
   return (
     <div className="relative w-full min-h-screen overflow-auto flex flex-col items-center justify-center">
-      <Navbar isNight={isNight} onToggleTheme={handleToggleTheme} />
+      <Navbar
+        isNight={isNight}
+        onToggleTheme={handleToggleTheme}
+        onOpenHistory={onOpenSummary ? () => setHistoryOpen(true) : undefined}
+        onOpenSummary={onOpenSummary ? handleOpenStoredSummary : undefined}
+      />
+      <HistoryDrawer open={historyOpen} isNight={isNight} onClose={() => setHistoryOpen(false)} onSelect={handleOpenStoredSummary} />
       {/* Three.js Canvas */}
       <div ref={mountRef} className="fixed inset-0 z-0" style={{ pointerEvents: 'none' }} />
       
@@ -1521,12 +1733,36 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
           </button>
           <button
             type="button"
-            className={`px-4 py-1.5 rounded-r-xl font-bold text-base transition-all duration-200 focus:outline-none ${inputMode === 'url' ? 'bg-blue-500 text-white shadow' : 'bg-white/30 text-blue-700 hover:bg-blue-100'}`}
+            className={`px-4 py-1.5 font-bold text-base transition-all duration-200 focus:outline-none ${inputMode === 'url' ? 'bg-blue-500 text-white shadow' : 'bg-white/30 text-blue-700 hover:bg-blue-100'}`}
             onClick={() => setInputMode('url')}
             aria-pressed={inputMode === 'url'}
           >
             URL
           </button>
+          <button
+            type="button"
+            className={`px-4 py-1.5 font-bold text-base transition-all duration-200 focus:outline-none ${inputMode === 'file' ? 'bg-blue-500 text-white shadow' : 'bg-white/30 text-blue-700 hover:bg-blue-100'}`}
+            onClick={() => setInputMode('file')}
+            aria-pressed={inputMode === 'file'}
+          >
+            File
+          </button>
+          <button
+            type="button"
+            className={`px-4 py-1.5 font-bold text-base transition-all duration-200 focus:outline-none ${inputMode === 'feed' ? 'bg-blue-500 text-white shadow' : 'bg-white/30 text-blue-700 hover:bg-blue-100'}`}
+            onClick={() => setInputMode('feed')}
+            aria-pressed={inputMode === 'feed'}
+          >
+            Feed
+          </button>
+          <button
+            type="button"
+            className={`px-4 py-1.5 rounded-r-xl font-bold text-base transition-all duration-200 focus:outline-none ${inputMode === 'batch' ? 'bg-blue-500 text-white shadow' : 'bg-white/30 text-blue-700 hover:bg-blue-100'}`}
+            onClick={() => setInputMode('batch')}
+            aria-pressed={inputMode === 'batch'}
+          >
+            Batch
+          </button>
         </div>
         <div
           className="backdrop-blur-2xl rounded-3xl shadow-2xl border border-white/20 transition-all duration-700"
@@ -1593,12 +1829,52 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
                   required
                   disabled={inputMinimized}
                 />
+              ) : inputMode === 'file' ? (
+                <label
+                  className="w-full flex flex-col items-center justify-center gap-2 px-5 py-6 bg-white/10 rounded-2xl border-2 border-dashed border-blue-300/60 text-lg text-blue-900 font-semibold shadow-xl cursor-pointer transition-all duration-200 glass-textarea"
+                  style={{
+                    backdropFilter: 'blur(8px)',
+                    WebkitBackdropFilter: 'blur(8px)',
+                    fontFamily: 'Geist, Arial, sans-serif',
+                  }}
+                >
+                  <span className={file ? '' : 'text-blue-400'}>{file ? file.name : 'Choose a PDF, DOCX, Markdown, HTML or TXT file...'}</span>
+                  {file && <span className="text-sm text-blue-500">{(file.size / 1024).toFixed(0)} KB</span>}
+                  <input
+                    type="file"
+                    accept={UPLOAD_ACCEPT}
+                    onChange={e => setFile(e.target.files?.[0] ?? null)}
+                    className="sr-only"
+                    required
+                    disabled={inputMinimized}
+                  />
+                </label>
+              ) : inputMode === 'batch' ? (
+                <textarea
+                  value={batchText}
+                  onChange={(e) => setBatchText(e.target.value)}
+                  placeholder="Paste up to 20 blog/article URLs, one per line..."
+                  className="w-full px-5 py-4 bg-white/10 rounded-2xl border-2 border-transparent text-lg text-blue-900 placeholder-blue-400 font-semibold focus:outline-none shadow-xl transition-all duration-200 min-h-[120px] resize-y glass-textarea"
+                  style={{
+                    boxShadow: '0 2px 16px 0 rgba(80,180,255,0.08)',
+                    backdropFilter: 'blur(8px)',
+                    WebkitBackdropFilter: 'blur(8px)',
+                    fontFamily: 'Geist, Arial, sans-serif',
+                    letterSpacing: '0.01em',
+                    minHeight: inputMinimized ? '60px' : '120px',
+                    maxHeight: inputMinimized ? '80px' : '240px',
+                    fontSize: inputMinimized ? '1rem' : '1.15rem',
+                    transition: 'all 1s cubic-bezier(0.4,0,0.2,1)',
+                  }}
+                  required
+                  disabled={inputMinimized}
+                />
               ) : (
                 <input
                   type="url"
                   value={url}
                   onChange={e => setUrl(e.target.value)}
-                  placeholder="Paste a blog/article URL here..."
+                  placeholder={inputMode === 'feed' ? 'Paste an RSS or Atom feed URL here...' : 'Paste a blog/article URL here...'}
                   className="w-full px-5 py-4 bg-white/10 rounded-2xl border-2 border-transparent text-lg text-blue-900 placeholder-blue-400 font-semibold focus:outline-none shadow-xl transition-all duration-200 glass-textarea"
                   style={{
                     boxShadow: '0 2px 16px 0 rgba(80,180,255,0.08)',
@@ -1615,6 +1891,96 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
                 />
               )}
             </div>
+            {/* Summary length slider */}
+            <div className="flex flex-col items-center gap-2 w-full">
+              <div className="flex items-center gap-1" role="group" aria-label="Summary length unit">
+                {(Object.keys(LENGTH_SLIDERS) as SummaryLength['mode'][]).map(mode => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => handleLengthMode(mode)}
+                    aria-pressed={lengthMode === mode}
+                    disabled={inputMinimized}
+                    className={`px-3 py-0.5 rounded-lg text-xs font-bold transition-all duration-200 focus:outline-none disabled:opacity-60 ${lengthMode === mode ? 'bg-blue-500 text-white shadow' : 'bg-white/30 text-blue-700 hover:bg-blue-100'}`}
+                  >
+                    {LENGTH_SLIDERS[mode].label}
+                  </button>
+                ))}
+              </div>
+              <label className={`flex items-center gap-3 w-full max-w-md text-sm font-semibold ${isNight ? 'text-white/90' : 'text-blue-900'}`}>
+                <span className="whitespace-nowrap">Length</span>
+                <input
+                  type="range"
+                  min={LENGTH_SLIDERS[lengthMode].min}
+                  max={LENGTH_SLIDERS[lengthMode].max}
+                  step={LENGTH_SLIDERS[lengthMode].step}
+                  value={lengthValue}
+                  onChange={e => setLengthValue(Number(e.target.value))}
+                  disabled={inputMinimized}
+                  className="flex-1 accent-purple-500"
+                  aria-valuetext={LENGTH_SLIDERS[lengthMode].format(lengthValue)}
+                />
+                <span className="whitespace-nowrap w-32 text-right">{LENGTH_SLIDERS[lengthMode].format(lengthValue)}</span>
+              </label>
+              <div className="flex items-center gap-1" role="group" aria-label="Sentence order and algorithm">
+                {([['document', 'Original order'], ['relevance', 'By relevance']] as [SentenceOrder, string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setOrder(value)}
+                    aria-pressed={order === value}
+                    disabled={inputMinimized}
+                    className={`px-3 py-0.5 rounded-lg text-xs font-bold transition-all duration-200 focus:outline-none disabled:opacity-60 ${order === value ? 'bg-blue-500 text-white shadow' : 'bg-white/30 text-blue-700 hover:bg-blue-100'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                <span className="w-2" aria-hidden="true" />
+                {([['frequency', 'Frequency'], ['textrank', 'TextRank']] as [SummaryAlgorithm, string][]).map(([value, label]) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setAlgorithm(value)}
+                    aria-pressed={algorithm === value}
+                    disabled={inputMinimized}
+                    className={`px-3 py-0.5 rounded-lg text-xs font-bold transition-all duration-200 focus:outline-none disabled:opacity-60 ${algorithm === value ? 'bg-purple-500 text-white shadow' : 'bg-white/30 text-purple-700 hover:bg-purple-100'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {/* Background job: the summary keeps processing if the page is closed or reloaded */}
+            {(inputMode === 'text' || inputMode === 'url') && (
+              <label className={`flex items-center justify-center gap-2 text-sm font-semibold ${isNight ? 'text-white/90' : 'text-blue-900'}`}>
+                <input
+                  type="checkbox"
+                  checked={background}
+                  onChange={e => setBackground(e.target.checked)}
+                  disabled={inputMinimized}
+                  className="accent-purple-500"
+                />
+                Run in background
+              </label>
+            )}
+            {/* Target language chips */}
+            <div className="flex flex-wrap justify-center gap-2" role="group" aria-label="Translation languages">
+              {Object.values(LANGUAGES).map(info => (
+                <button
+                  key={info.code}
+                  type="button"
+                  onClick={() => toggleLanguage(info.code)}
+                  aria-pressed={languages.includes(info.code)}
+                  disabled={inputMinimized}
+                  className={`px-3 py-1 rounded-full text-sm font-semibold transition-all duration-200 focus:outline-none disabled:opacity-60 ${languages.includes(info.code) ? 'bg-purple-500 text-white shadow' : 'bg-white/30 text-purple-700 hover:bg-purple-100'}`}
+                >
+                  {info.name} <span lang={info.code} dir={info.dir}>{info.nativeName}</span>
+                </button>
+              ))}
+            </div>
+            {languages.length === 0 && (
+              <p className={`text-center text-xs ${isNight ? 'text-white/70' : 'text-blue-900/70'}`}>No language selected: you&apos;ll get the English summary only.</p>
+            )}
             <button
               type="submit"
               disabled={loadingStage !== 0 || inputMinimized}
@@ -1626,7 +1992,7 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
                 position: 'relative',
               }}
             >
-              {loadingStage === 1 ? 'Processing...' : loadingStage === 2 ? 'Translating...' : 'Summarize & Translate'}
+              {loadingStage === 1 ? 'Processing...' : loadingStage === 2 ? 'Translating...' : languages.length === 0 ? 'Summarize' : 'Summarize & Translate'}
               {!loadingStage && (
                 <span style={{display:'inline-block', marginLeft:'0.2em', filter:'drop-shadow(0 0 6px #fff8)'}}>
                   <svg width="26" height="26" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2" strokeLinecap="round" strokeLinejoin="round" className="feather feather-arrow-right">
@@ -1639,12 +2005,36 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
             </button>
           </form>
           {error && (
-            <div className="mt-4 p-4 bg-red-500/20 border border-red-500/30 rounded-lg">
+            <div className="mt-4 p-4 bg-red-500/20 border border-red-500/30 rounded-lg" role="alert">
               <p className="text-red-200 text-center">{error}</p>
+              {errorHint && <p className="mt-1 text-sm text-red-100/80 text-center">{errorHint.hint}</p>}
+              {errorHint?.action && (
+                <div className="mt-3 flex justify-center">
+                  <button
+                    type="button"
+                    onClick={() => handleErrorAction(errorHint.action!)}
+                    disabled={loadingStage !== 0}
+                    className="px-4 py-1.5 rounded-full text-sm font-semibold bg-white/20 hover:bg-white/40 text-white border border-white/30 transition-all duration-200 focus:outline-none disabled:opacity-60"
+                  >
+                    {ERROR_ACTION_LABELS[errorHint.action]}
+                  </button>
+                </div>
+              )}
             </div>
           )}
           {renderLoading()}
         </div>
+        {/* Batch and feed digest results replace the single summary panel until one is opened */}
+        {!showSummary && batchResults && batchResults.length > 0 && (
+          <BatchResults
+            results={batchResults}
+            heading={digest?.title}
+            overview={digest?.overview}
+            isNight={isNight}
+            onOpen={result => onOpenBatchResult?.(result)}
+            onClose={() => onCloseBatch?.()}
+          />
+        )}
         {/* Summary/Translation Panel below input, centered, with typing effect */}
         {showSummary && (
           <div ref={summaryRef} className={`mt-10 flex justify-center w-full transition-all duration-500 ${fadeOut ? 'opacity-0 pointer-events-none' : 'opacity-100'}`}>
@@ -1665,6 +2055,7 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
               <h2 className="text-2xl font-bold text-white text-center mb-4">
                 Summary Generated Successfully! 🎉
               </h2>
+              {metadata && <ArticleHeaderCard metadata={metadata} isNight={isNight} />}
               <div className="grid md:grid-cols-2 gap-6 w-full">
                 <div className="flex flex-col items-center">
                   <div className="flex items-center gap-2 mb-2">
@@ -1694,42 +2085,28 @@ export default function ThreeScene({ onSubmit, loadingStage, summary, urduSummar
                     >
                       {expandBoth ? typedSummary : getFirstLines(typedSummary, 2)}
                     </p>
+                    {sentences && sentences.length > 0 && totalSentences ? (
+                      <p className={`mt-1 text-xs ${isNight ? 'text-white/60' : 'text-gray-600'}`}>
+                        From source sentence{sentences.length === 1 ? '' : 's'} {sentences.map(s => `#${s.index + 1}`).join(', ')} of {totalSentences}
+                      </p>
+                    ) : null}
                   </div>
                 </div>
-                <div className="flex flex-col items-center">
-                  <div className="flex items-center gap-2 mb-2">
-                    <h3 className="text-lg font-semibold text-purple-300">اردو خلاصہ</h3>
-                    <button
-                      type="button"
-                      aria-label="Copy Urdu summary"
-                      onClick={() => handleCopy(urduSummary || '', 'ur')}
-                      className="bg-white/20 hover:bg-white/40 text-purple-400 hover:text-purple-600 rounded-full p-1.5 shadow transition-all duration-200 border border-white/30 focus:outline-none flex items-center"
-                      style={{backdropFilter:'blur(6px)', WebkitBackdropFilter:'blur(6px)'}}
-                      disabled={!urduSummary}
-                    >
-                      {copied === 'ur' ? (
-                        <span className="text-xs font-bold text-purple-500 px-2">Copied!</span>
-                      ) : (
-                        <svg width="18" height="18" viewBox="0 0 20 20" fill="none" stroke="currentColor" strokeWidth="1.7" strokeLinecap="round" strokeLinejoin="round">
-                          <rect x="7" y="7" width="9" height="9" rx="2.5"/>
-                          <path d="M4.5 13V4.5A2.5 2.5 0 0 1 7 2h6.5"/>
-                        </svg>
-                      )}
-                    </button>
-                  </div>
-                  <div className="relative w-full flex flex-col items-center">
-                    <p
-                      className={`leading-relaxed text-center min-h-[60px] text-base md:text-lg ${isNight ? 'text-white/90' : 'text-gray-800'} transition-all duration-300`}
-                      dir="rtl"
-                      style={{wordBreak:'break-word', fontFamily:'Geist, Arial, sans-serif', maxHeight: expandBoth ? '1000px' : '3.8em', overflow: 'hidden'}}
-                    >
-                      {expandBoth ? typedUrdu : getFirstLines(typedUrdu, 2)}
-                    </p>
-                  </div>
-                </div>
+                {translationEntries.map(([lang, translated]) => (
+                  <TranslationPanel
+                    key={lang}
+                    lang={lang}
+                    text={translated}
+                    typing={showSummary && startTyping}
+                    expanded={expandBoth}
+                    copied={copied === lang}
+                    isNight={isNight}
+                    onCopy={() => handleCopy(translated, lang)}
+                  />
+                ))}
               </div>
               {/* Centered expand/collapse arrow for both paragraphs */}
-              {typedSummary || typedUrdu ? (
+              {typedSummary ? (
                 <div className="flex justify-center w-full mt-2">
                   <button
                     type="button"
@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Lets the rate limiter key clients by their socket address when no proxy is trusted
+    const { recordSocketAddresses } = await import('./lib/socketaddress');
+    recordSocketAddresses();
+  }
+}
@@ -0,0 +1,98 @@
+import { after, type NextRequest } from 'next/server';
+import { authenticate, recordApiKeyUsage, type ApiKey } from './apikeys';
+import {
+  applyRateLimitHeaders,
+  clientIp,
+  hitRateLimit,
+  rateLimitConfig,
+  rateLimitError,
+  tightest,
+  type RateLimitDecision,
+} from './ratelimit';
+import { errorResponse } from './errors';
+
+// --- Helper: A rate limit check that lets the request through when the counter store is down ---
+async function limitOrNull(check: () => Promise<RateLimitDecision | null>): Promise<RateLimitDecision | null> {
+  try {
+    return await check();
+  } catch (error) {
+    // A counter store outage shouldn't take the API down with it
+    console.error('Rate limit error:', error);
+    return null;
+  }
+}
+
+export interface ApiAccessOptions {
+  // Rate limit units the request costs (default 1), read from a clone of the request
+  cost?: (req: NextRequest) => Promise<number>;
+}
+
+// --- Helper: A request's rate limit cost; 1 when it can't be worked out (the handler reports a bad body) ---
+async function costOf(req: NextRequest, options: ApiAccessOptions): Promise<number> {
+  if (!options.cost) return 1;
+  try {
+    const cost = await options.cost(req);
+    return Number.isFinite(cost) && cost >= 1 ? cost : 1;
+  } catch {
+    return 1;
+  }
+}
+
+// --- Route handler wrapper for the summarise endpoints: per-IP limit, API key check, per-key limit, then per-key usage ---
+export function withApiAccess<Args extends unknown[]>(
+  handler: (req: NextRequest, ...args: Args) => Promise<Response>,
+  options: ApiAccessOptions = {}
+): (req: NextRequest, ...args: Args) => Promise<Response> {
+  return async (req, ...args) => {
+    const config = rateLimitConfig();
+    const cost = await costOf(req, options);
+    // The IP is counted before the key is checked, so guessing keys uses up the IP's quota too
+    const ipDecision = await limitOrNull(() => hitRateLimit(`ip:${clientIp(req, config.trustedProxies)}`, config.perIp, undefined, config, cost));
+    if (ipDecision && !ipDecision.allowed) {
+      const response = errorResponse(rateLimitError(ipDecision, config));
+      applyRateLimitHeaders(response, ipDecision);
+      return response;
+    }
+
+    let apiKey: ApiKey | null;
+    try {
+      apiKey = await authenticate(req);
+    } catch (error: unknown) {
+      const response = errorResponse(error, 'API key');
+      if (ipDecision) applyRateLimitHeaders(response, ipDecision);
+      return response;
+    }
+
+    const keyId = apiKey?.id;
+    const keyDecision = keyId ? await limitOrNull(() => hitRateLimit(`key:${keyId}`, config.perKey, undefined, config, cost)) : null;
+    // Both limits apply; the tightest one decides and is reported in the headers
+    const decision = tightest([ipDecision, keyDecision]);
+
+    let response: Response;
+    if (decision && !decision.allowed) {
+      response = errorResponse(rateLimitError(decision, config));
+    } else {
+      response = await handler(req, ...args);
+    }
+    if (decision) applyRateLimitHeaders(response, decision);
+
+    if (keyId) {
+      // Counted after the response is sent; streamed responses count by their initial status
+      after(() => recordApiKeyUsage(keyId, response.status).catch((error) => console.error('API key usage error:', error)));
+    }
+    return response;
+  };
+}
+
+// --- Route handler wrapper for sign-in and sign-up: a tighter per-IP budget of their own, against password guessing ---
+export function withAuthRateLimit<Args extends unknown[]>(
+  handler: (req: NextRequest, ...args: Args) => Promise<Response>
+): (req: NextRequest, ...args: Args) => Promise<Response> {
+  return async (req, ...args) => {
+    const config = rateLimitConfig();
+    const decision = await limitOrNull(() => hitRateLimit(`auth-ip:${clientIp(req, config.trustedProxies)}`, config.perIpAuth, undefined, config));
+    const response = decision && !decision.allowed ? errorResponse(rateLimitError(decision, config)) : await handler(req, ...args);
+    if (decision) applyRateLimitHeaders(response, decision);
+    return response;
+  };
+}
@@ -0,0 +1,212 @@
+// Typed client for the summariser API, used by the UI. Requests and responses are checked
+// against ./schema; only types come from the server modules, so this file is safe to bundle for the browser.
+import type { z } from 'zod';
+import type { ErrorBody, ErrorCode, FieldError } from './errors';
+import type { PipelineEvent } from './pipeline';
+import {
+  CredentialsSchema,
+  fieldErrors,
+  LibraryUpdateSchema,
+  SummariseOptionsSchema,
+  SummariseRequestSchema,
+  SummariseResponseSchema,
+  type Credentials,
+  type LibraryUpdate,
+  type SummariseRequestBody,
+  type SummariseResponse,
+} from './schema';
+import type { BatchRequestBody, BatchResponse } from './batch';
+import type { FeedDigest, FeedDigestRequestBody } from './digest';
+import type { JobCreated, JobStatusView } from './jobs';
+import type { StoredSummary, SummaryPage } from './history';
+import type { SearchResponse } from './search';
+import type { AuthState } from './users';
+
+// Where the API lives: this app's own routes by default, or another deployment of them
+// (e.g. NEXT_PUBLIC_API_BASE_URL=https://noobboy69-blog-summariser-api.hf.space)
+export const API_BASE_URL = (process.env.NEXT_PUBLIC_API_BASE_URL || '/api').replace(/\/+$/, '');
+
+// A failed API call, with the error code the server sent when there was one
+export class ApiError extends Error {
+  code: ErrorCode | null;
+  // HTTP status; 0 when the request was never sent or the failure came from a stream event
+  status: number;
+  // VALIDATION_FAILED: every invalid field
+  fields: FieldError[];
+
+  constructor(message: string, code?: ErrorCode | null, status = 0, fields: FieldError[] = []) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code ?? null;
+    this.status = status;
+    this.fields = fields;
+  }
+}
+
+// --- Helper: Check a request body before sending it, with the same schema the server uses ---
+function assertValid(schema: z.ZodType, body: unknown): void {
+  const result = schema.safeParse(body);
+  if (result.success) return;
+  const fields = fieldErrors(result.error);
+  throw new ApiError(`Invalid request: ${fields.map(f => `${f.field}: ${f.message}`).join('; ')}`, 'VALIDATION_FAILED', 0, fields);
+}
+
+// --- Helper: A summarise result that matches the declared response schema ---
+function parseResult(data: unknown): SummariseResponse {
+  const result = SummariseResponseSchema.safeParse(data);
+  if (result.success) return result.data;
+  const fields = fieldErrors(result.error).map(f => f.field).join(', ');
+  throw new ApiError(`The API returned an unexpected response (${fields}).`);
+}
+
+const apiUrl = (path: string) => `${API_BASE_URL}${path}`;
+
+// --- Helper: JSON body of a response, or an ApiError carrying the server's message and code ---
+async function readJson<T>(response: Response, fallback: string): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const body = data as Partial<ErrorBody> | null;
+    throw new ApiError(body?.error || fallback, body?.code, response.status, body?.fields);
+  }
+  return data as T;
+}
+
+async function postJson<T>(path: string, body: unknown, fallback: string, method = 'POST'): Promise<T> {
+  const response = await fetch(apiUrl(path), {
+    method,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+  return readJson<T>(response, fallback);
+}
+
+// --- Helper: Read an NDJSON event stream until its result or error event ---
+async function readEvents(response: Response, onEvent: (event: PipelineEvent) => void): Promise<SummariseResponse> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines.filter(l => l.trim())) {
+      const event = JSON.parse(line) as PipelineEvent;
+      if (event.type === 'error') throw new ApiError(event.error, event.code, event.status);
+      onEvent(event);
+      if (event.type === 'result') return parseResult(event.result);
+    }
+    if (done) throw new ApiError('The summary stream ended before a result arrived.');
+  }
+}
+
+export interface SummariseOptions {
+  // Uploaded document to summarise instead of `text` / `url`
+  file?: File;
+  // Progress events; when given, the request is streamed
+  onEvent?: (event: PipelineEvent) => void;
+}
+
+// --- POST /summarise: JSON, or multipart when a file is attached ---
+export async function summarise(body: SummariseRequestBody, options: SummariseOptions = {}): Promise<SummariseResponse> {
+  const { file, onEvent } = options;
+  // An upload's text is extracted by the server, so only the options are checked here
+  assertValid(file ? SummariseOptionsSchema : SummariseRequestSchema, body);
+  const request: SummariseRequestBody = { ...body, stream: !!onEvent };
+  let init: RequestInit;
+  if (file) {
+    // Options travel as JSON-encoded form fields next to the file
+    const form = new FormData();
+    form.append('file', file);
+    Object.entries(request).forEach(([key, value]) => form.append(key, JSON.stringify(value)));
+    init = { method: 'POST', body: form };
+  } else {
+    init = { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(request) };
+  }
+
+  const response = await fetch(apiUrl('/summarise'), init);
+  // A backend without streaming support answers with plain JSON
+  if (onEvent && response.ok && response.body && response.headers.get('content-type')?.includes('application/x-ndjson')) {
+    return readEvents(response, onEvent);
+  }
+  return parseResult(await readJson<unknown>(response, 'Failed to process text'));
+}
+
+export function summariseBatch(body: BatchRequestBody): Promise<BatchResponse> {
+  return postJson<BatchResponse>('/summarise/batch', body, 'Failed to process batch');
+}
+
+export function summariseFeed(body: FeedDigestRequestBody): Promise<FeedDigest> {
+  return postJson<FeedDigest>('/summarise/feed', body, 'Failed to process feed');
+}
+
+export function createJob(body: SummariseRequestBody): Promise<JobCreated> {
+  assertValid(SummariseRequestSchema, body);
+  return postJson<JobCreated>('/jobs', body, 'Failed to queue job');
+}
+
+export async function getJob(id: string): Promise<JobStatusView> {
+  const response = await fetch(apiUrl(`/jobs/${encodeURIComponent(id)}`), { cache: 'no-store' });
+  const job = await readJson<JobStatusView>(response, 'Failed to load job status');
+  return job.result ? { ...job, result: parseResult(job.result) } : job;
+}
+
+export async function listSummaries(params: { page?: number; limit?: number; domain?: string } = {}): Promise<SummaryPage> {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+  const response = await fetch(apiUrl(`/summaries?${query}`));
+  return readJson<SummaryPage>(response, 'Failed to load history');
+}
+
+export async function getSummary(id: string): Promise<StoredSummary> {
+  const response = await fetch(apiUrl(`/summaries/${encodeURIComponent(id)}`));
+  return readJson<StoredSummary>(response, 'Failed to open summary');
+}
+
+export async function searchSummaries(q: string): Promise<SearchResponse> {
+  const response = await fetch(apiUrl(`/search?${new URLSearchParams({ q })}`));
+  return readJson<SearchResponse>(response, 'Search failed');
+}
+
+// Accounts use a session cookie, so they only work when the API shares the page's origin
+export async function getCurrentUser(): Promise<AuthState> {
+  const response = await fetch(apiUrl('/auth/me'), { cache: 'no-store' });
+  return readJson<AuthState>(response, 'Failed to load your account');
+}
+
+export function signUp(credentials: Credentials): Promise<AuthState> {
+  assertValid(CredentialsSchema, credentials);
+  return postJson<AuthState>('/auth/signup', credentials, 'Failed to create your account');
+}
+
+export function signIn(credentials: Credentials): Promise<AuthState> {
+  assertValid(CredentialsSchema, credentials);
+  return postJson<AuthState>('/auth/signin', credentials, 'Failed to sign in');
+}
+
+export function signOut(): Promise<AuthState> {
+  return postJson<AuthState>('/auth/signout', {}, 'Failed to sign out');
+}
+
+export async function listLibrary(params: { page?: number; limit?: number; tag?: string; starred?: boolean } = {}): Promise<SummaryPage> {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '' && value !== false) query.set(key, String(value));
+  });
+  const response = await fetch(apiUrl(`/library?${query}`), { cache: 'no-store' });
+  return readJson<SummaryPage>(response, 'Failed to load your library');
+}
+
+export function updateLibraryItem(id: string, update: LibraryUpdate): Promise<StoredSummary> {
+  assertValid(LibraryUpdateSchema, update);
+  return postJson<StoredSummary>(`/library/${encodeURIComponent(id)}`, update, 'Failed to update the summary', 'PATCH');
+}
+
+export async function deleteLibraryItem(id: string): Promise<void> {
+  const response = await fetch(apiUrl(`/library/${encodeURIComponent(id)}`), { method: 'DELETE' });
+  await readJson<{ deleted: boolean }>(response, 'Failed to delete the summary');
+}
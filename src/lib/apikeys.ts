@@ -0,0 +1,153 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { ObjectId, type Document } from 'mongodb';
+import type { NextRequest } from 'next/server';
+import { getDb } from './mongodb';
+import { SummariseError } from './errors';
+
+const API_KEYS_COLLECTION = 'api_keys';
+// Issued keys look like "bs_" + 32 random base64url characters
+const KEY_PREFIX = 'bs_';
+// Characters of the key kept in clear so a key can be recognised in the admin list
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+
+// Requests made with a key, by outcome
+export interface ApiKeyUsage {
+  requests: number;
+  // Answered with an error status, rate limiting included
+  failed: number;
+  rateLimited: number;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  // Start of the key, e.g. "bs_x1Y2z3"; the full key is only shown once, when issued
+  prefix: string;
+  usage: ApiKeyUsage;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+// Reply to POST /api/admin/keys
+export interface IssuedApiKey extends ApiKey {
+  key: string;
+}
+
+const toIso = (value: Date | string) => new Date(value).toISOString();
+
+// Only the hash is stored, so a leaked database doesn't leak usable keys
+export const hashApiKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+function toApiKey(doc: Document): ApiKey {
+  return {
+    id: String(doc._id),
+    name: doc.name,
+    prefix: doc.prefix,
+    usage: { requests: 0, failed: 0, rateLimited: 0, ...doc.usage },
+    lastUsedAt: doc.lastUsedAt ? toIso(doc.lastUsedAt) : null,
+    revokedAt: doc.revokedAt ? toIso(doc.revokedAt) : null,
+    createdAt: toIso(doc.createdAt),
+  };
+}
+
+let indexesReady: Promise<unknown> | null = null;
+
+async function apiKeys() {
+  const collection = (await getDb()).collection(API_KEYS_COLLECTION);
+  if (!indexesReady) {
+    indexesReady = collection.createIndex({ hash: 1 }, { unique: true }).catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+  return collection;
+}
+
+// --- Issue a key; the plaintext key is returned here and never again ---
+export async function issueApiKey(body: Record<string, unknown>): Promise<IssuedApiKey> {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    throw new SummariseError('INVALID_REQUEST', 'Give the key a "name" (e.g. the service that will use it).');
+  }
+  const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+  const doc = {
+    name,
+    prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+    hash: hashApiKey(key),
+    usage: { requests: 0, failed: 0, rateLimited: 0 },
+    lastUsedAt: null,
+    revokedAt: null,
+    createdAt: new Date(),
+  };
+  const { insertedId } = await (await apiKeys()).insertOne(doc);
+  return { ...toApiKey({ ...doc, _id: insertedId }), key };
+}
+
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const docs = await (await apiKeys()).find().sort({ createdAt: -1 }).toArray();
+  return docs.map(toApiKey);
+}
+
+// --- Revoke a key; it stays listed with its usage. Null when there is no such key ---
+export async function revokeApiKey(id: string): Promise<ApiKey | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const collection = await apiKeys();
+  const _id = new ObjectId(id);
+  // Revoking twice keeps the first revocation time
+  await collection.updateOne({ _id, revokedAt: null }, { $set: { revokedAt: new Date() } });
+  const doc = await collection.findOne({ _id });
+  return doc ? toApiKey(doc) : null;
+}
+
+// --- Helper: API key from `X-API-Key` or `Authorization: Bearer <key>` ---
+export function apiKeyFrom(req: NextRequest): string | null {
+  const header = req.headers.get('x-api-key')?.trim();
+  if (header) return header;
+  const bearer = req.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+  return bearer || null;
+}
+
+// Whether requests without a key are turned away:
+//   API_KEY_REQUIRED = false (default; the bundled UI sends no key) | true
+export const apiKeyRequired = (env: NodeJS.ProcessEnv = process.env) => env.API_KEY_REQUIRED === 'true';
+
+// --- The key a request authenticates with; null for keyless requests (UNAUTHORIZED when the key is unknown or revoked) ---
+export async function authenticate(req: NextRequest, required = apiKeyRequired()): Promise<ApiKey | null> {
+  const key = apiKeyFrom(req);
+  if (!key) {
+    if (required) {
+      throw new SummariseError('UNAUTHORIZED', 'An API key is required. Send it in the X-API-Key header.');
+    }
+    return null;
+  }
+  const doc = await (await apiKeys()).findOne({ hash: hashApiKey(key) });
+  if (!doc) throw new SummariseError('UNAUTHORIZED', 'Unknown API key.');
+  if (doc.revokedAt) throw new SummariseError('UNAUTHORIZED', 'This API key has been revoked.');
+  return toApiKey(doc);
+}
+
+// --- Count one request against a key's usage ---
+export async function recordApiKeyUsage(id: string, status: number): Promise<void> {
+  await (await apiKeys()).updateOne(
+    { _id: new ObjectId(id) },
+    {
+      $inc: { 'usage.requests': 1, 'usage.failed': status >= 400 ? 1 : 0, 'usage.rateLimited': status === 429 ? 1 : 0 },
+      $set: { lastUsedAt: new Date() },
+    }
+  );
+}
+
+// --- Helper: Whether the request sends `Authorization: Bearer <secret>`, compared in constant time; never with no secret ---
+export function hasBearerToken(req: NextRequest, secret: string | undefined): boolean {
+  if (!secret) return false;
+  const sent = Buffer.from(req.headers.get('authorization') ?? '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  return sent.length === expected.length && timingSafeEqual(sent, expected);
+}
+
+// --- Admin routes: `Authorization: Bearer $ADMIN_TOKEN`; closed when ADMIN_TOKEN is unset ---
+export function isAdmin(req: NextRequest, env: NodeJS.ProcessEnv = process.env): boolean {
+  return hasBearerToken(req, env.ADMIN_TOKEN);
+}
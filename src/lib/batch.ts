@@ -0,0 +1,115 @@
+import { parseSummariseRequest, runSummarise, SummariseError, type SummariseRequestBody, type SummariseResponse } from './pipeline';
+import { toErrorBody, ValidationError, type ErrorCode } from './errors';
+import { DEFAULT_LANGUAGES } from './languages';
+import { fieldErrors, SummariseOptionsSchema } from './schema';
+
+export const MAX_BATCH_ITEMS = 20;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+// Summary options shared by every item of a batch or feed digest
+export type SharedOptionsBody = Omit<SummariseRequestBody, 'text' | 'url' | 'stream'>;
+
+// JSON body of POST /api/summarise/batch
+export type BatchRequestBody = SharedOptionsBody & {
+  items: (string | { url?: string; text?: string })[];
+  concurrency?: number;
+};
+
+export type BatchItemResult =
+  | { index: number; input: string; ok: true; result: SummariseResponse }
+  | { index: number; input: string; ok: false; error: string; code: ErrorCode; status: number };
+
+export interface BatchResponse {
+  results: BatchItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// --- Rate limit units for summarising several articles: one per article and target language ---
+// A 20-item batch in three languages costs 60 single summaries' worth, not one request
+export function workUnits(articles: number, languages: unknown): number {
+  const targets = Array.isArray(languages) ? languages.length : DEFAULT_LANGUAGES.length;
+  return Math.max(1, articles) * Math.max(1, targets);
+}
+
+// --- Rate limit cost of a batch body ---
+export function batchCost(body: unknown): number {
+  const { items, languages } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  return workUnits(Array.isArray(items) ? Math.min(items.length, MAX_BATCH_ITEMS) : 1, languages);
+}
+
+// --- Helper: Check a batch or feed body and its shared options before any item runs ---
+// A body that isn't an object, or options every item would reject, fails the request instead of each item
+export function checkSharedOptions(body: unknown): Record<string, unknown> {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new SummariseError('INVALID_REQUEST', 'The request body must be a JSON object.');
+  }
+  const parsed = SummariseOptionsSchema.safeParse(body);
+  if (!parsed.success) throw new ValidationError(fieldErrors(parsed.error));
+  return body as Record<string, unknown>;
+}
+
+// --- Helper: Run tasks with at most `limit` in flight, keeping result order ---
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Batch items may be plain strings (URL or text) or `{ url }` / `{ text }` objects
+function toItemBody(item: unknown): Record<string, unknown> {
+  if (typeof item === 'string') {
+    return /^https?:\/\//i.test(item.trim()) ? { url: item } : { text: item };
+  }
+  if (item && typeof item === 'object') {
+    const { url, text } = item as Record<string, unknown>;
+    return { url, text };
+  }
+  return {};
+}
+
+function describeItem(body: Record<string, unknown>): string {
+  if (typeof body.url === 'string') return body.url.trim();
+  if (typeof body.text === 'string') return body.text.trim().slice(0, 80);
+  return '';
+}
+
+// --- Helper: Summarise one item, turning a failure into an error result ---
+export async function summariseItem(index: number, itemBody: Record<string, unknown>): Promise<BatchItemResult> {
+  const input = describeItem(itemBody);
+  try {
+    const result = await runSummarise(parseSummariseRequest(itemBody));
+    return { index, input, ok: true, result };
+  } catch (error: unknown) {
+    console.error(`Batch item ${index} error:`, error);
+    const { body, status } = toErrorBody(error);
+    return { index, input, ok: false, ...body, status };
+  }
+}
+
+// --- Summarise every item with shared options; one item failing doesn't fail the batch ---
+export async function runBatch(body: unknown): Promise<BatchResponse> {
+  const { items, concurrency, ...shared } = checkSharedOptions(body);
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new SummariseError('INVALID_REQUEST', 'Please provide a non-empty items array of URLs or texts.');
+  }
+  if (items.length > MAX_BATCH_ITEMS) {
+    throw new SummariseError('INVALID_REQUEST', `A batch can contain at most ${MAX_BATCH_ITEMS} items.`);
+  }
+  const limit = typeof concurrency === 'number' && concurrency >= 1
+    ? Math.min(Math.floor(concurrency), MAX_BATCH_CONCURRENCY)
+    : DEFAULT_BATCH_CONCURRENCY;
+
+  const results = await mapWithConcurrency(items, limit, (item, index) => summariseItem(index, { ...shared, ...toItemBody(item) }));
+
+  const succeeded = results.filter((r) => r.ok).length;
+  return { results, succeeded, failed: results.length - succeeded };
+}
@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import { getDb } from './mongodb';
+
+const CACHE_COLLECTION = 'summary_cache';
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ref|ref_src|igshid)$/i;
+
+export function cacheTtlSeconds(env: NodeJS.ProcessEnv = process.env): number {
+  const ttl = Number(env.SUMMARY_CACHE_TTL_SECONDS);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS;
+}
+
+// --- Helper: Normalize a URL so trivially different links share a cache entry ---
+export function normalizeUrl(input: string): string {
+  try {
+    const url = new URL(input.trim());
+    url.hash = '';
+    url.hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+    if ((url.protocol === 'http:' && url.port === '80') || (url.protocol === 'https:' && url.port === '443')) {
+      url.port = '';
+    }
+    const params = [...url.searchParams.entries()]
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    url.search = new URLSearchParams(params).toString();
+    url.pathname = url.pathname.replace(/\/+$/, '') || '/';
+    return url.toString();
+  } catch {
+    return input.trim();
+  }
+}
+
+// --- Helper: Hash article text, ignoring case and whitespace differences ---
+export function hashContent(text: string): string {
+  return createHash('sha256').update(text.replace(/\s+/g, ' ').trim().toLowerCase()).digest('hex');
+}
+
+// JSON with object keys sorted at every level, so equal options always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// --- Helper: Cache key for a source (URL or content hash) plus the options that shape the result ---
+export function cacheKey(source: string, options: Record<string, unknown>): string {
+  return createHash('sha256').update(`${source}\n${stableStringify(options)}`).digest('hex');
+}
+
+let indexesReady: Promise<unknown> | null = null;
+
+async function cacheCollection() {
+  const db = await getDb();
+  const collection = db.collection(CACHE_COLLECTION);
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      collection.createIndex({ key: 1 }, { unique: true }),
+      // MongoDB drops entries once expiresAt has passed
+      collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]).catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+  return collection;
+}
+
+// Returns the first cached response found for any of the keys, or null.
+export async function getCachedSummary<T>(keys: string[]): Promise<T | null> {
+  const collection = await cacheCollection();
+  const entry = await collection.findOne({ key: { $in: keys }, expiresAt: { $gt: new Date() } });
+  return entry ? (entry.response as T) : null;
+}
+
+// Stores the response under every key (e.g. normalized URL and content hash).
+export async function setCachedSummary(keys: string[], response: unknown, ttlSeconds = cacheTtlSeconds()): Promise<void> {
+  const collection = await cacheCollection();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+  await collection.bulkWrite(
+    keys.map((key) => ({
+      updateOne: {
+        filter: { key },
+        update: { $set: { key, response, createdAt: now, expiresAt } },
+        upsert: true,
+      },
+    }))
+  );
+}
@@ -0,0 +1,112 @@
+import { FetchError, fetchText, FEED_CONTENT_TYPES } from './fetcher';
+import { parseFeed, type FeedFormat } from './feed';
+import { checkSharedOptions, DEFAULT_BATCH_CONCURRENCY, mapWithConcurrency, summariseItem, workUnits, type BatchItemResult, type SharedOptionsBody } from './batch';
+import { parseSummariseRequest, SummariseError, translateSummary, type SummariseRequest } from './pipeline';
+import { summarizeText } from './summarizer';
+
+export const DEFAULT_DIGEST_ENTRIES = 5;
+export const MAX_DIGEST_ENTRIES = 20;
+
+// JSON body of POST /api/summarise/feed
+export type FeedDigestRequestBody = SharedOptionsBody & {
+  url: string;
+  // Latest entries to summarise (default 5, at most 20)
+  limit?: number;
+};
+
+export interface DigestOverview {
+  summary: string;
+  translations: Record<string, string>;
+  translationErrors?: Record<string, string>;
+}
+
+export interface FeedDigest {
+  feed: { url: string; format: FeedFormat; title: string; link: string };
+  // Summary of the per-post summaries; null when no post could be summarised
+  overview: DigestOverview | null;
+  // One result per feed entry, newest first as listed in the feed
+  results: BatchItemResult[];
+  succeeded: number;
+  failed: number;
+}
+
+// --- Helper: Entries a digest summarises for a requested `limit` ---
+function entryLimitOf(limit: unknown): number {
+  return typeof limit === 'number' && limit >= 1 ? Math.min(Math.floor(limit), MAX_DIGEST_ENTRIES) : DEFAULT_DIGEST_ENTRIES;
+}
+
+// --- Rate limit cost of a feed digest body: every entry it may summarise ---
+export function feedDigestCost(body: unknown): number {
+  const { limit, languages } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  return workUnits(entryLimitOf(limit), languages);
+}
+
+// --- Download a feed document; any other content type is NOT_A_FEED rather than NOT_HTML ---
+export async function fetchFeedXml(url: string): Promise<string> {
+  try {
+    return await fetchText(url, { contentTypes: FEED_CONTENT_TYPES });
+  } catch (error) {
+    if (error instanceof FetchError && error.reason === 'content-type') {
+      throw new SummariseError('NOT_A_FEED', error.message, error.status);
+    }
+    throw error;
+  }
+}
+
+// --- Summary of the per-post summaries, one paragraph per post, with its translations ---
+export async function buildOverview(
+  postSummaries: string[],
+  options: Pick<SummariseRequest, 'languages' | 'length' | 'algorithm'>
+): Promise<DigestOverview | null> {
+  if (postSummaries.length === 0) return null;
+  const { summary } = summarizeText(postSummaries.join('\n\n'), {
+    length: options.length,
+    order: 'relevance',
+    algorithm: options.algorithm,
+  });
+  const { translations, translationErrors } = await translateSummary(summary, options.languages);
+  return {
+    summary,
+    translations,
+    ...(Object.keys(translationErrors).length > 0 ? { translationErrors } : {}),
+  };
+}
+
+// --- Fetch a feed, summarise its latest posts and combine them into a digest ---
+export async function runFeedDigest(body: unknown): Promise<FeedDigest> {
+  const { limit, ...shared } = checkSharedOptions(body);
+  // Validates the shared options (languages, length, ...) before anything is fetched
+  const options = parseSummariseRequest(shared);
+  if (!options.url) {
+    throw new SummariseError('INVALID_REQUEST', 'Please provide the URL of an RSS or Atom feed.');
+  }
+  const entryLimit = entryLimitOf(limit);
+
+  const xml = await fetchFeedXml(options.url);
+  let feed;
+  try {
+    feed = parseFeed(xml, options.url);
+  } catch {
+    throw new SummariseError('NOT_A_FEED', 'The URL did not return an RSS or Atom feed.');
+  }
+  const entries = feed.entries.filter((entry) => entry.link).slice(0, entryLimit);
+  if (entries.length === 0) {
+    throw new SummariseError('NOT_A_FEED', 'The feed has no entries with article links.');
+  }
+
+  const results = await mapWithConcurrency(entries, DEFAULT_BATCH_CONCURRENCY, (entry, index) =>
+    summariseItem(index, { ...shared, text: undefined, url: entry.link })
+  );
+
+  const postSummaries = results.flatMap((item) => (item.ok ? [item.result.summary] : []));
+  const overview = await buildOverview(postSummaries, options);
+
+  const succeeded = postSummaries.length;
+  return {
+    feed: { url: options.url, format: feed.format, title: feed.title, link: feed.link },
+    overview,
+    results,
+    succeeded,
+    failed: results.length - succeeded,
+  };
+}
@@ -0,0 +1,197 @@
+import mammoth from 'mammoth';
+import { extractText, getDocumentProxy, getMeta } from 'unpdf';
+import { extractArticle, type ArticleMetadata } from './extractor';
+import { decodeBody } from './fetcher';
+import { SummariseError } from './errors';
+import { MAX_TEXT_LENGTH, MIN_TEXT_LENGTH } from './schema';
+
+export type DocumentKind = 'pdf' | 'docx' | 'markdown' | 'html' | 'text';
+
+const DEFAULT_MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+// Room for the multipart boundaries, part headers and option fields around the file
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+const KIND_BY_EXTENSION: Record<string, DocumentKind> = {
+  pdf: 'pdf',
+  docx: 'docx',
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  txt: 'text',
+};
+
+const KIND_BY_TYPE: Record<string, DocumentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'application/xhtml+xml': 'html',
+  'text/plain': 'text',
+};
+
+export interface ExtractedDocument {
+  text: string;
+  metadata: ArticleMetadata;
+}
+
+export function uploadMaxBytes(env: NodeJS.ProcessEnv = process.env): number {
+  const bytes = Number(env.UPLOAD_MAX_BYTES);
+  return Number.isFinite(bytes) && bytes > 0 ? bytes : DEFAULT_MAX_UPLOAD_BYTES;
+}
+
+// --- Helper: Document kind from the file extension, then the browser-reported media type ---
+export function detectDocumentKind(filename: string, mimeType = ''): DocumentKind | null {
+  const extension = filename.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  if (extension && KIND_BY_EXTENSION[extension]) return KIND_BY_EXTENSION[extension];
+  return KIND_BY_TYPE[mimeType.split(';')[0].trim().toLowerCase()] ?? null;
+}
+
+// --- Helper: Plain text from Markdown: drop code, images and markup, keep link and heading text ---
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*?)[ \t]*#*$/gm, '$1.')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*([-*+]|\d+[.)])[ \t]+/gm, '')
+    .replace(/^[ \t]*([-*_][ \t]*){3,}$/gm, '')
+    .replace(/(\*\*|__|\*|_|~~|`)(\S(?:.*?\S)?)\1/g, '$2')
+    .replace(/<[^>]+>/g, '')
+    .split(/\n\s*\n/)
+    .map((block) => block.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+const baseMetadata = (filename: string): ArticleMetadata => ({
+  title: filename.replace(/\.[^.]+$/, ''),
+  canonicalUrl: null,
+  author: null,
+  publishedAt: null,
+  siteName: null,
+  language: null,
+  leadImage: null,
+  wordCount: 0,
+});
+
+async function readPdf(bytes: Buffer, metadata: ArticleMetadata): Promise<ExtractedDocument> {
+  const pdf = await getDocumentProxy(new Uint8Array(bytes));
+  const [{ text: pages }, { info }] = await Promise.all([extractText(pdf), getMeta(pdf, { parseDates: true })]);
+  const published = info.CreationDate instanceof Date ? info.CreationDate : null;
+  return {
+    // One paragraph per page; lines within a page are joined back into sentences
+    text: pages.map((page) => page.replace(/\s+/g, ' ').trim()).filter(Boolean).join('\n\n'),
+    metadata: {
+      ...metadata,
+      title: typeof info.Title === 'string' && info.Title.trim() ? info.Title.trim() : metadata.title,
+      author: typeof info.Author === 'string' && info.Author.trim() ? info.Author.trim() : null,
+      publishedAt: published && !isNaN(published.getTime()) ? published.toISOString() : null,
+    },
+  };
+}
+
+// --- Extract the text of an uploaded file (throws UNSUPPORTED_FILE / UNREADABLE_FILE) ---
+export async function extractDocumentText(bytes: Buffer, filename: string, mimeType = ''): Promise<ExtractedDocument> {
+  const kind = detectDocumentKind(filename, mimeType);
+  if (!kind) {
+    throw new SummariseError('UNSUPPORTED_FILE', 'Unsupported file type. Upload a PDF, DOCX, Markdown, HTML or TXT file.');
+  }
+
+  let document: ExtractedDocument;
+  const metadata = baseMetadata(filename);
+  try {
+    switch (kind) {
+      case 'pdf':
+        document = await readPdf(bytes, metadata);
+        break;
+      case 'docx': {
+        const { value } = await mammoth.extractRawText({ buffer: bytes });
+        document = { text: value.split(/\n\s*\n/).map((p) => p.trim()).filter(Boolean).join('\n\n'), metadata };
+        break;
+      }
+      case 'html': {
+        const { text, ...articleMetadata } = extractArticle(decodeBody(bytes, mimeType));
+        document = { text, metadata: { ...articleMetadata, title: articleMetadata.title || metadata.title } };
+        break;
+      }
+      case 'markdown':
+        document = { text: markdownToText(decodeBody(bytes, mimeType)), metadata };
+        break;
+      case 'text':
+        document = { text: decodeBody(bytes, mimeType).trim(), metadata };
+        break;
+    }
+  } catch (error) {
+    console.error(`Document extraction error (${kind}):`, error);
+    throw new SummariseError('UNREADABLE_FILE', `Could not read text from ${filename}.`);
+  }
+  return { ...document, metadata: { ...document.metadata, wordCount: document.text.split(/\s+/).filter(Boolean).length } };
+}
+
+// --- Helper: Form field value, as JSON when it parses (languages, length, stream) ---
+function formValue(value: FormDataEntryValue): unknown {
+  if (typeof value !== 'string') return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+const tooLarge = (maxBytes: number) =>
+  new SummariseError('CONTENT_TOO_LARGE', `The file is too large (limit ${Math.round(maxBytes / 1024 / 1024)} MB).`);
+
+// --- Parse a multipart request body without holding more than the upload limit in memory ---
+// A declared Content-Length over the limit is rejected before reading; chunked bodies are cut off once they pass it
+export async function readUploadForm(req: Request): Promise<FormData> {
+  const maxBytes = uploadMaxBytes();
+  const maxBodyBytes = maxBytes + FORM_OVERHEAD_BYTES;
+  if (Number(req.headers.get('content-length')) > maxBodyBytes) throw tooLarge(maxBytes);
+  if (!req.body) throw new SummariseError('INVALID_REQUEST', 'Please attach a file in the "file" field.');
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  const reader = req.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBodyBytes) {
+      await reader.cancel();
+      throw tooLarge(maxBytes);
+    }
+    chunks.push(value);
+  }
+  try {
+    return await new Response(Buffer.concat(chunks), { headers: { 'content-type': req.headers.get('content-type') ?? '' } }).formData();
+  } catch {
+    throw new SummariseError('INVALID_REQUEST', 'The upload is not valid multipart/form-data.');
+  }
+}
+
+// --- Read a multipart upload: the `file` field plus the usual summarise options as fields ---
+export async function readUpload(form: FormData): Promise<{ body: Record<string, unknown>; metadata: ArticleMetadata }> {
+  const file = form.get('file');
+  if (!file || typeof file === 'string') {
+    throw new SummariseError('INVALID_REQUEST', 'Please attach a file in the "file" field.');
+  }
+  const maxBytes = uploadMaxBytes();
+  if (file.size > maxBytes) throw tooLarge(maxBytes);
+
+  const body: Record<string, unknown> = {};
+  form.forEach((value, key) => {
+    if (key !== 'file') body[key] = formValue(value);
+  });
+  const { text, metadata } = await extractDocumentText(Buffer.from(await file.arrayBuffer()), file.name, file.type);
+  if (text.length < MIN_TEXT_LENGTH) {
+    throw new SummariseError('CONTENT_TOO_SHORT', `Could not extract enough text from the file (at least ${MIN_TEXT_LENGTH} characters are needed).`);
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new SummariseError('CONTENT_TOO_LARGE', `The file has too much text to summarise (limit ${MAX_TEXT_LENGTH.toLocaleString('en')} characters).`);
+  }
+  return { body: { ...body, text, url: undefined }, metadata };
+}
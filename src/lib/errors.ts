@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server';
+
+// Machine-readable error codes, returned as `code` next to the human-readable `error`
+export type ErrorCode =
+  | 'INVALID_REQUEST'
+  | 'VALIDATION_FAILED'
+  | 'INVALID_URL'
+  | 'BLOCKED_URL'
+  | 'FETCH_TIMEOUT'
+  | 'FETCH_FAILED'
+  | 'PAGE_NOT_FOUND'
+  | 'CONTENT_TOO_LARGE'
+  | 'NOT_HTML'
+  | 'NOT_A_FEED'
+  | 'UNSUPPORTED_FILE'
+  | 'UNREADABLE_FILE'
+  | 'CONTENT_TOO_SHORT'
+  | 'TRANSLATION_UNAVAILABLE'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'UNAUTHORIZED'
+  | 'RATE_LIMITED'
+  | 'INTERNAL';
+
+// HTTP status each code is sent with unless the error says otherwise
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  VALIDATION_FAILED: 422,
+  INVALID_URL: 400,
+  BLOCKED_URL: 403,
+  FETCH_TIMEOUT: 504,
+  FETCH_FAILED: 502,
+  PAGE_NOT_FOUND: 404,
+  CONTENT_TOO_LARGE: 413,
+  NOT_HTML: 415,
+  NOT_A_FEED: 422,
+  UNSUPPORTED_FILE: 415,
+  UNREADABLE_FILE: 422,
+  CONTENT_TOO_SHORT: 422,
+  TRANSLATION_UNAVAILABLE: 503,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  UNAUTHORIZED: 401,
+  RATE_LIMITED: 429,
+  INTERNAL: 500,
+};
+
+// One invalid request field, by its dotted path ("length.value")
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// JSON body of every API error response
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  // VALIDATION_FAILED only: every invalid field
+  fields?: FieldError[];
+}
+
+// An error that should reach the client with its code, message and HTTP status
+export class SummariseError extends Error {
+  code: ErrorCode;
+  status: number;
+
+  constructor(code: ErrorCode, message: string, status = ERROR_STATUS[code]) {
+    super(message);
+    this.name = 'SummariseError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+// A request body that failed schema validation (422)
+export class ValidationError extends SummariseError {
+  fields: FieldError[];
+
+  constructor(fields: FieldError[]) {
+    super('VALIDATION_FAILED', `Invalid request: ${fields.map((f) => `${f.field}: ${f.message}`).join('; ')}`);
+    this.name = 'ValidationError';
+    this.fields = fields;
+  }
+}
+
+// --- Body and status for anything thrown; unexpected errors become INTERNAL 500 ---
+export function toErrorBody(error: unknown): { body: ErrorBody; status: number } {
+  if (error instanceof ValidationError) {
+    return { body: { error: error.message, code: error.code, fields: error.fields }, status: error.status };
+  }
+  if (error instanceof SummariseError) {
+    return { body: { error: error.message, code: error.code }, status: error.status };
+  }
+  // req.json() on a malformed body
+  if (error instanceof SyntaxError) {
+    return { body: { error: 'The request body is not valid JSON.', code: 'INVALID_REQUEST' }, status: 400 };
+  }
+  return {
+    body: { error: error instanceof Error ? error.message : 'Internal server error', code: 'INTERNAL' },
+    status: 500,
+  };
+}
+
+// --- Route handler error response; only unexpected errors are logged ---
+export function errorResponse(error: unknown, label = 'API'): NextResponse<ErrorBody> {
+  if (!(error instanceof SummariseError)) console.error(`${label} Error:`, error);
+  const { body, status } = toErrorBody(error);
+  return NextResponse.json(body, { status });
+}
@@ -0,0 +1,374 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+export interface ArticleMetadata {
+  title: string;
+  canonicalUrl: string | null;
+  author: string | null;
+  publishedAt: string | null;
+  siteName: string | null;
+  language: string | null;
+  leadImage: string | null;
+  wordCount: number;
+}
+
+export interface ExtractedArticle extends ArticleMetadata {
+  text: string;
+}
+
+// Schema.org types whose JSON-LD describes the article itself
+const ARTICLE_TYPES = /Article|BlogPosting|Report/;
+
+// Elements that never hold article content
+const STRIP_SELECTORS = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button', 'input', 'select',
+  'nav', 'aside', 'footer', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]', '[role="dialog"]',
+  '[aria-hidden="true"]', '[hidden]',
+].join(',');
+
+const UNLIKELY = /comment|cookie|consent|gdpr|banner|footer|sidebar|related|share|sharing|social|newsletter|subscribe|promo|sponsor|advert|\bads?\b|popup|modal|menu|breadcrumb|pagination|masthead|skip-link|widget|outbrain|taboola/i;
+const LIKELY = /article|body|content|entry|main|post|story|text|blog/i;
+const POSITIVE = /article|body|content|entry|main|page|post|story|text|blog/i;
+const NEGATIVE = /comment|meta|footer|footnote|sidebar|related|share|social|promo|sponsor|advert|widget|teaser|byline|author|tags?\b/i;
+
+const BLOCK_TAGS = new Set(['p', 'li', 'blockquote', 'pre', 'td', 'dd']);
+const CONTAINER_TAGS = new Set(['div', 'section', 'article', 'main', 'ul', 'ol', 'td', 'blockquote']);
+const MIN_BLOCK_LENGTH = 25;
+
+const normalizeSpace = (s: string) => s.replace(/\s+/g, ' ').trim();
+
+// --- Helper: Class/id weight (Readability-style) ---
+function classWeight(el: Element): number {
+  const names = `${el.attribs.class || ''} ${el.attribs.id || ''}`;
+  let weight = 0;
+  if (NEGATIVE.test(names)) weight -= 25;
+  if (POSITIVE.test(names)) weight += 25;
+  return weight;
+}
+
+function initialScore(el: Element): number {
+  switch (el.tagName) {
+    case 'article':
+    case 'main':
+      return 15;
+    case 'div':
+    case 'section':
+      return 5;
+    case 'pre':
+    case 'td':
+    case 'blockquote':
+      return 3;
+    case 'ol':
+    case 'ul':
+    case 'dl':
+      return -3;
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+// --- Helper: Share of an element's text that sits inside links ---
+function linkDensity($: cheerio.CheerioAPI, el: AnyNode): number {
+  const textLength = normalizeSpace($(el).text()).length;
+  if (textLength === 0) return 0;
+  const linkLength = $(el).find('a').toArray().reduce((sum, a) => sum + normalizeSpace($(a).text()).length, 0);
+  return linkLength / textLength;
+}
+
+// Divs with no block-level children act as paragraphs in div-only layouts
+function isParagraphLike($: cheerio.CheerioAPI, el: Element): boolean {
+  if (BLOCK_TAGS.has(el.tagName)) return true;
+  if (el.tagName !== 'div') return false;
+  return $(el).children('div, p, ul, ol, section, article, table, blockquote, pre, h1, h2, h3, h4, h5, h6').length === 0;
+}
+
+type JsonLd = Record<string, unknown>;
+
+// --- Helper: First Article-like JSON-LD object on the page ---
+function findJsonLdArticle($: cheerio.CheerioAPI): JsonLd | null {
+  const candidates: JsonLd[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(visit);
+    else if (value && typeof value === 'object') {
+      const obj = value as JsonLd;
+      candidates.push(obj);
+      if (obj['@graph']) visit(obj['@graph']);
+    }
+  };
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      visit(JSON.parse($(el).text()));
+    } catch {
+      // Ignore malformed JSON-LD blocks
+    }
+  });
+  const typeOf = (obj: JsonLd) => [obj['@type']].flat().filter((t) => typeof t === 'string').join(' ');
+  return (
+    candidates.find((obj) => ARTICLE_TYPES.test(typeOf(obj))) ||
+    candidates.find((obj) => /WebPage/.test(typeOf(obj))) ||
+    null
+  );
+}
+
+// JSON-LD values can be a string, an object with name/url, or an array of either
+function jsonLdText(value: unknown, key: 'name' | 'url' = 'name'): string | null {
+  if (typeof value === 'string') return value.trim() || null;
+  if (Array.isArray(value)) {
+    const parts = value.map((v) => jsonLdText(v, key)).filter((v): v is string => !!v);
+    return parts.length ? (key === 'name' ? parts.join(', ') : parts[0]) : null;
+  }
+  if (value && typeof value === 'object') return jsonLdText((value as JsonLd)[key], key);
+  return null;
+}
+
+// --- Helper: Metadata from OpenGraph, JSON-LD, meta tags and common markup ---
+function extractMetadata($: cheerio.CheerioAPI, baseUrl?: string) {
+  const ld = findJsonLdArticle($);
+  const meta = (...names: string[]) => {
+    for (const name of names) {
+      const value = $(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`).first().attr('content');
+      if (value && value.trim()) return value.trim();
+    }
+    return null;
+  };
+  const title =
+    meta('og:title', 'twitter:title') ||
+    jsonLdText(ld?.headline) ||
+    normalizeSpace($('article h1, main h1, h1').first().text()) ||
+    normalizeSpace($('title').first().text());
+  const author =
+    jsonLdText(ld?.author) ||
+    meta('author', 'article:author', 'parsely-author', 'sailthru.author') ||
+    normalizeSpace($('[rel="author"], [itemprop="author"] [itemprop="name"], [itemprop="author"], .author-name, .byline .author, .author').first().text()) ||
+    null;
+  const publishedAt =
+    jsonLdText(ld?.datePublished) ||
+    meta('article:published_time', 'datePublished', 'date', 'pubdate', 'publish-date', 'parsely-pub-date') ||
+    $('time[datetime]').first().attr('datetime') ||
+    $('[itemprop="datePublished"]').first().attr('content') ||
+    null;
+  const image = meta('og:image', 'og:image:url', 'twitter:image', 'twitter:image:src') || jsonLdText(ld?.image, 'url');
+  const canonical =
+    $('link[rel="canonical"]').first().attr('href') ||
+    meta('og:url') ||
+    jsonLdText(ld?.mainEntityOfPage, 'url') ||
+    jsonLdText(ld?.url, 'url');
+  const siteName =
+    meta('og:site_name', 'application-name') ||
+    jsonLdText(ld?.publisher) ||
+    (baseUrl ? hostnameOf(baseUrl) : null);
+  const language =
+    $('html').attr('lang')?.trim() ||
+    meta('og:locale', 'language', 'content-language') ||
+    $('meta[http-equiv="content-language" i]').attr('content')?.trim() ||
+    jsonLdText(ld?.inLanguage) ||
+    null;
+  return {
+    title,
+    canonicalUrl: canonical ? resolveUrl(canonical, baseUrl) : baseUrl || null,
+    author,
+    publishedAt,
+    siteName,
+    language: language ? language.replace('_', '-') : null,
+    leadImage: image ? resolveUrl(image, baseUrl) : null,
+  };
+}
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function resolveUrl(href: string, baseUrl?: string): string {
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+// --- Helper: Pick the element most likely to hold the article body ---
+function findMainContent($: cheerio.CheerioAPI): cheerio.Cheerio<AnyNode> {
+  const scores = new Map<Element, number>();
+  const addScore = (el: Element | null, amount: number) => {
+    if (!el || !CONTAINER_TAGS.has(el.tagName)) return;
+    if (!scores.has(el)) scores.set(el, initialScore(el) + classWeight(el));
+    scores.set(el, scores.get(el)! + amount);
+  };
+
+  $('body').find('p, li, blockquote, pre, td, dd, div').each((_, node) => {
+    const el = node as Element;
+    if (!isParagraphLike($, el)) return;
+    const text = normalizeSpace($(el).text());
+    if (text.length < MIN_BLOCK_LENGTH) return;
+    // One point per block, one per comma, and up to three for length
+    const score = 1 + text.split(',').length - 1 + Math.min(Math.floor(text.length / 100), 3);
+    const parent = el.parent && el.parent.type === 'tag' ? (el.parent as Element) : null;
+    const grandparent = parent?.parent && parent.parent.type === 'tag' ? (parent.parent as Element) : null;
+    addScore(parent, score);
+    addScore(grandparent, score / 2);
+    if (el.tagName === 'div') addScore(el, score);
+  });
+
+  let best: Element | null = null;
+  let bestScore = -Infinity;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity($, el));
+    if (adjusted > bestScore) {
+      bestScore = adjusted;
+      best = el;
+    }
+  }
+
+  if (!best) {
+    const fallback = $('article').first().length ? $('article').first() : $('main').first();
+    return fallback.length ? fallback : $('body');
+  }
+  // Widen to the enclosing <article>/<main> when the winner sits inside one
+  const enclosing = $(best).closest('article, main');
+  return enclosing.length ? enclosing.first() : $(best);
+}
+
+// --- Helper: Readable text of the chosen content element ---
+function collectText($: cheerio.CheerioAPI, root: cheerio.Cheerio<AnyNode>): string {
+  const blocks: string[] = [];
+  root.find('p, li, blockquote, pre, dd, div').each((_, node) => {
+    const el = node as Element;
+    if (!isParagraphLike($, el)) return;
+    // Nested blocks (p inside blockquote, li inside li) are read via their outermost block
+    if ($(el).parents('p, li, blockquote, pre, dd').length > 0) return;
+    if (linkDensity($, el) > 0.5) return;
+    const text = normalizeSpace($(el).text());
+    if (text.length < MIN_BLOCK_LENGTH) return;
+    blocks.push(text);
+  });
+  // Paragraph breaks double as sentence boundaries for the summarizer
+  return blocks.join('\n\n');
+}
+
+// --- Extract the main article content and metadata from an HTML document ---
+export function extractArticle(html: string, baseUrl?: string): ExtractedArticle {
+  const $ = cheerio.load(html);
+  const metadata = extractMetadata($, baseUrl);
+
+  $(STRIP_SELECTORS).remove();
+  $('body header').filter((_, el) => $(el).closest('article').length === 0).remove();
+  $('body *').each((_, node) => {
+    const el = node as Element;
+    const names = `${el.attribs.class || ''} ${el.attribs.id || ''}`;
+    if (UNLIKELY.test(names) && !LIKELY.test(names) && el.tagName !== 'article' && el.tagName !== 'main' && el.tagName !== 'body') {
+      $(el).remove();
+    }
+  });
+
+  const content = findMainContent($);
+  let leadImage = metadata.leadImage;
+  if (!leadImage) {
+    const src = content.find('img[src]').first().attr('src');
+    leadImage = src ? resolveUrl(src, baseUrl) : null;
+  }
+
+  const text = collectText($, content);
+  return {
+    ...metadata,
+    leadImage,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+    text,
+  };
+}
+
+// Link text of "next page" controls; only followed inside a pagination container, and "Next post"-style links are rejected by isContinuation
+const NEXT_TEXT = /^(next( page)?|continue( on next page)?|older|[›»→]|next\s*[›»→]|[›»→]\s*next)$/i;
+const PAGINATION_CONTAINER = /pag(e|er|ination|ing)|page-numbers|nav-links/i;
+// "p" is left out: on WordPress ?p=N is a post id, not a page
+const PAGE_PARAMS = ['page', 'pg', 'paged'];
+// Explicit page markers at the end of a path: /page/2, /page2, -page-2, _page2, -p2
+const PAGE_SUFFIX = /(?:[/_-]page[/_-]?|-p)(\d+)$/i;
+// A bare "/N" suffix is only read as a page for small N, so /news/12345 stays a story id
+const BARE_PAGE_SUFFIX = /\/(\d+)$/;
+const MAX_BARE_PAGE = 10;
+
+interface PageRef {
+  // Article path without its page suffix
+  base: string;
+  page: number;
+  // Numbered by a bare "/N" suffix rather than an explicit marker
+  bare: boolean;
+}
+
+// --- Helper: Article path and page number of a URL; a URL without a page marker is page 1 ---
+function pageOf(url: URL): PageRef {
+  const path = url.pathname.replace(/\.(html?|php|aspx?)$/i, '').replace(/\/+$/, '');
+  for (const param of PAGE_PARAMS) {
+    const value = Number(url.searchParams.get(param));
+    if (Number.isInteger(value) && value > 0) return { base: path, page: value, bare: false };
+  }
+  const marked = path.match(PAGE_SUFFIX);
+  if (marked) return { base: path.slice(0, marked.index), page: Number(marked[1]), bare: false };
+  const bare = path.match(BARE_PAGE_SUFFIX);
+  const number = Number(bare?.[1]);
+  if (bare && number >= 2 && number <= MAX_BARE_PAGE) return { base: path.slice(0, bare.index), page: number, bare: true };
+  return { base: path, page: 1, bare: false };
+}
+
+// --- Helper: Whether a link continues the current article rather than pointing elsewhere ---
+// Trailing numbers without a marker (/news/12346, /p/top-11) are other articles; a bare "/N" must be the very next page
+function isContinuation(candidate: URL, current: URL): boolean {
+  if (candidate.host !== current.host) return false;
+  const next = pageOf(candidate);
+  const here = pageOf(current);
+  if (next.base !== here.base || next.page <= here.page) return false;
+  return !next.bare || next.page === here.page + 1;
+}
+
+// --- Find the next page of a paginated article (rel="next", "Next" links, numbered pagers) ---
+export function findNextPageUrl(html: string, pageUrl: string): string | null {
+  let current: URL;
+  try {
+    current = new URL(pageUrl);
+  } catch {
+    return null;
+  }
+  const $ = cheerio.load(html);
+  const inPagination = (el: Element) =>
+    $(el).parents().toArray().some((p) => PAGINATION_CONTAINER.test(`${(p as Element).attribs?.class || ''} ${(p as Element).attribs?.id || ''}`));
+  const toUrl = (href: string | undefined) => {
+    if (!href || href.startsWith('#') || /^javascript:/i.test(href)) return null;
+    try {
+      const url = new URL(href, pageUrl);
+      url.hash = '';
+      return isContinuation(url, current) ? url : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const candidates: (string | undefined)[] = [
+    ...$('link[rel~="next"], a[rel~="next"]').toArray().map((el) => (el as Element).attribs.href),
+    ...$('a[href]')
+      .toArray()
+      .filter((el) => {
+        const label = normalizeSpace($(el).text()) || (el as Element).attribs['aria-label'] || (el as Element).attribs.title || '';
+        return NEXT_TEXT.test(label.trim()) && inPagination(el as Element);
+      })
+      .map((el) => (el as Element).attribs.href),
+  ];
+  // Numbered pagers: the link labelled with the following page number
+  const nextNumber = String(pageOf(current).page + 1);
+  $('a[href]').each((_, node) => {
+    const el = node as Element;
+    if (normalizeSpace($(el).text()) === nextNumber && inPagination(el)) candidates.push(el.attribs.href);
+  });
+
+  for (const href of candidates) {
+    const url = toUrl(href);
+    if (url) return url.toString();
+  }
+  return null;
+}
@@ -0,0 +1,108 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio } from 'cheerio';
+import type { Element } from 'domhandler';
+
+export type FeedFormat = 'rss' | 'atom';
+
+export interface FeedEntry {
+  title: string;
+  link: string;
+  publishedAt: string | null;
+  // Description/summary text from the feed itself, markup stripped
+  excerpt: string;
+}
+
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  link: string;
+  entries: FeedEntry[];
+}
+
+// --- Helper: Resolve a possibly relative link against the feed URL ---
+function resolveLink(href: string, baseUrl?: string): string {
+  if (!href) return '';
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return href;
+  }
+}
+
+// --- Helper: ISO date from RFC 822 (RSS) or RFC 3339 (Atom) dates ---
+function toIsoDate(value: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// --- Helper: Plain text from an element whose content may be escaped HTML or CDATA ---
+function plainText(el: Cheerio<Element>): string {
+  const raw = el.first().text().trim();
+  if (!raw) return '';
+  return cheerio.load(raw).root().text().replace(/\s+/g, ' ').trim();
+}
+
+// Atom entries can carry several links; the article is the alternate (or unlabelled) one
+function atomLink(el: Cheerio<Element>, baseUrl?: string): string {
+  const links = el.children('link').toArray();
+  const alternate = links.find((link) => !link.attribs.rel || link.attribs.rel === 'alternate') || links[0];
+  return resolveLink(alternate?.attribs.href || '', baseUrl);
+}
+
+// --- Parse an RSS 2.0 / RSS 1.0 (RDF) or Atom document (throws on anything else) ---
+export function parseFeed(xml: string, baseUrl?: string): ParsedFeed {
+  const $ = cheerio.load(xml, { xml: true });
+
+  const atom = $('feed').first();
+  if (atom.length > 0) {
+    return {
+      format: 'atom',
+      title: plainText(atom.children('title')),
+      link: atomLink(atom, baseUrl),
+      entries: atom.children('entry').toArray().map((entry) => {
+        const el = $(entry);
+        return {
+          title: plainText(el.children('title')),
+          link: atomLink(el, baseUrl),
+          publishedAt: toIsoDate(el.children('published').text().trim() || el.children('updated').text().trim()),
+          excerpt: plainText(el.children('summary')) || plainText(el.children('content')),
+        };
+      }),
+    };
+  }
+
+  const channel = $('rss > channel, rdf\\:RDF > channel').first();
+  if (channel.length > 0) {
+    // RSS 1.0 keeps items next to the channel rather than inside it
+    const items = channel.children('item').length > 0 ? channel.children('item') : $('rdf\\:RDF > item');
+    return {
+      format: 'rss',
+      title: plainText(channel.children('title')),
+      link: resolveLink(channel.children('link').first().text().trim(), baseUrl),
+      entries: items.toArray().map((item) => {
+        const el = $(item);
+        // Some feeds leave <link> empty and put the article URL in a permalink <guid>
+        const guid = el.children('guid');
+        const link = el.children('link').first().text().trim() || (guid.attr('isPermaLink') !== 'false' ? guid.text().trim() : '');
+        return {
+          title: plainText(el.children('title')),
+          link: resolveLink(link, baseUrl),
+          publishedAt: toIsoDate(el.children('pubDate').text().trim() || el.children('dc\\:date').text().trim()),
+          excerpt: plainText(el.children('description')),
+        };
+      }),
+    };
+  }
+
+  throw new Error('Not an RSS or Atom feed');
+}
+
+// --- Feed advertised by an HTML page through <link rel="alternate">, if any ---
+export function discoverFeedUrl(html: string, baseUrl?: string): string | null {
+  const $ = cheerio.load(html);
+  const link = $('link[rel~="alternate"]')
+    .toArray()
+    .find((el) => /^application\/(rss|atom)\+xml\b/i.test(el.attribs.type || '') && el.attribs.href);
+  return link ? resolveLink(link.attribs.href, baseUrl) : null;
+}
@@ -0,0 +1,189 @@
+import fetch, { type Response } from 'node-fetch';
+import { SummariseError, type ErrorCode } from './errors';
+import { assertPublicUrl, BlockedUrlError, guardedAgent } from './ssrf';
+
+export const USER_AGENT = 'Mozilla/5.0 (compatible; BlogSummariser/1.0; +https://github.com/NOOBBoy35/nexium_abdullah_assignment2)';
+
+export const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+export const FEED_CONTENT_TYPES = ['application/rss+xml', 'application/atom+xml', 'application/rdf+xml', 'application/xml', 'text/xml'];
+
+export interface FetchOptions {
+  timeoutMs: number;
+  // Extra attempts after the first for timeouts, network errors, 429 and 5xx responses
+  retries: number;
+  // Base delay before a retry, doubled on every attempt
+  backoffMs: number;
+  maxRedirects: number;
+  maxBytes: number;
+  // Accepted media types; a response without a Content-Type is accepted
+  contentTypes: string[];
+}
+
+export type FetchFailure = 'timeout' | 'network' | 'http' | 'redirects' | 'too-large' | 'content-type';
+
+const FAILURE_CODES: Record<FetchFailure, ErrorCode> = {
+  timeout: 'FETCH_TIMEOUT',
+  network: 'FETCH_FAILED',
+  http: 'FETCH_FAILED',
+  redirects: 'FETCH_FAILED',
+  'too-large': 'CONTENT_TOO_LARGE',
+  'content-type': 'NOT_HTML',
+};
+
+// A failed page download; a missing page (404/410) is PAGE_NOT_FOUND, other upstream errors FETCH_FAILED
+export class FetchError extends SummariseError {
+  reason: FetchFailure;
+  url: string;
+  // Status the remote server answered with, for 'http' failures
+  upstreamStatus?: number;
+
+  constructor(reason: FetchFailure, url: string, message: string, upstreamStatus?: number) {
+    super(upstreamStatus === 404 || upstreamStatus === 410 ? 'PAGE_NOT_FOUND' : FAILURE_CODES[reason], message);
+    this.name = 'FetchError';
+    this.reason = reason;
+    this.url = url;
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+const numberFrom = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value && Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+// Fetch limits from environment config:
+//   FETCH_TIMEOUT_MS (10000), FETCH_RETRIES (2), FETCH_MAX_REDIRECTS (5), FETCH_MAX_BYTES (5 MB)
+export function fetchOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): FetchOptions {
+  return {
+    timeoutMs: numberFrom(env.FETCH_TIMEOUT_MS, 10_000),
+    retries: numberFrom(env.FETCH_RETRIES, 2),
+    backoffMs: 500,
+    maxRedirects: numberFrom(env.FETCH_MAX_REDIRECTS, 5),
+    maxBytes: numberFrom(env.FETCH_MAX_BYTES, 5 * 1024 * 1024),
+    contentTypes: HTML_CONTENT_TYPES,
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// --- Helper: Charset from a Content-Type value, e.g. "text/html; charset=windows-1256" ---
+function charsetOf(contentType: string | null): string | null {
+  const match = contentType?.match(/charset\s*=\s*["']?([\w.:-]+)/i);
+  return match ? match[1] : null;
+}
+
+// --- Helper: Charset declared inside the document (BOM, <meta> or XML declaration) ---
+function sniffCharset(bytes: Buffer): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  // Declarations are ASCII, so any single-byte reading of the head finds them
+  const head = bytes.subarray(0, 2048).toString('latin1');
+  const meta = head.match(/<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i);
+  if (meta) return meta[1];
+  const xml = head.match(/^<\?xml[^>]+encoding\s*=\s*["']([\w.:-]+)/i);
+  return xml ? xml[1] : null;
+}
+
+// --- Decode a response body using the header charset, then the document's own, then UTF-8 ---
+export function decodeBody(bytes: Buffer, contentType: string | null): string {
+  for (const label of [charsetOf(contentType), sniffCharset(bytes)]) {
+    if (!label) continue;
+    try {
+      return new TextDecoder(label.toLowerCase()).decode(bytes);
+    } catch {
+      // Unknown label: try the next source
+    }
+  }
+  return new TextDecoder('utf-8').decode(bytes);
+}
+
+// --- Helper: Read the body, failing as soon as it exceeds maxBytes ---
+async function readLimited(res: Response, url: string, maxBytes: number): Promise<Buffer> {
+  const declared = Number(res.headers.get('content-length'));
+  if (declared > maxBytes) {
+    throw new FetchError('too-large', url, `The page is too large (${declared} bytes, limit ${maxBytes}).`);
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of res.body ?? []) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    if (size > maxBytes) {
+      throw new FetchError('too-large', url, `The page is too large (over ${maxBytes} bytes).`);
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// --- Helper: One attempt: follow redirects manually (capped), check type and size, decode ---
+async function fetchOnce(url: string, options: FetchOptions): Promise<string> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs);
+  try {
+    let current = url;
+    for (let redirects = 0; ; redirects++) {
+      // Every hop is checked, so a public URL can't redirect to an internal one
+      await assertPublicUrl(current);
+      const res = await fetch(current, {
+        redirect: 'manual',
+        signal: controller.signal,
+        agent: guardedAgent,
+        headers: {
+          'User-Agent': USER_AGENT,
+          Accept: [...options.contentTypes, '*/*;q=0.8'].join(', '),
+        },
+      });
+
+      if (res.status >= 300 && res.status < 400 && res.headers.has('location')) {
+        if (redirects >= options.maxRedirects) {
+          throw new FetchError('redirects', url, `Too many redirects (more than ${options.maxRedirects}).`);
+        }
+        current = new URL(res.headers.get('location')!, current).toString();
+        continue;
+      }
+      if (!res.ok) {
+        throw new FetchError('http', current, `The page responded with HTTP ${res.status}.`, res.status);
+      }
+
+      const contentType = res.headers.get('content-type');
+      const mediaType = contentType?.split(';')[0].trim().toLowerCase();
+      if (mediaType && !options.contentTypes.includes(mediaType)) {
+        throw new FetchError('content-type', current, `Expected ${options.contentTypes.join(' or ')} but the URL returned ${mediaType}.`);
+      }
+      return decodeBody(await readLimited(res, current, options.maxBytes), contentType);
+    }
+  } catch (error) {
+    if (error instanceof FetchError || error instanceof BlockedUrlError) throw error;
+    if ((error as { code?: string }).code === 'EBLOCKED') {
+      throw new BlockedUrlError('private-address', url, 'URLs pointing to private or internal network addresses are not allowed.');
+    }
+    if (controller.signal.aborted) {
+      throw new FetchError('timeout', url, `The page took longer than ${options.timeoutMs} ms to respond.`);
+    }
+    throw new FetchError('network', url, `Could not reach the page: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Only failures that can go away on their own are retried
+const isRetryable = (error: unknown) =>
+  error instanceof FetchError &&
+  (error.reason === 'timeout' ||
+    error.reason === 'network' ||
+    (error.upstreamStatus !== undefined && (error.upstreamStatus === 429 || error.upstreamStatus >= 500)));
+
+// --- Download a text document with timeout, retries with backoff, redirect cap, size and type checks ---
+export async function fetchText(url: string, overrides: Partial<FetchOptions> = {}): Promise<string> {
+  const options = { ...fetchOptionsFromEnv(), ...overrides };
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, options);
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryable(error)) throw error;
+      await sleep(options.backoffMs * 2 ** attempt);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { ObjectId, type Filter, type Document } from 'mongodb';
+import { getDb } from './mongodb';
+import type { ArticleMetadata } from './extractor';
+import type { SelectedSentence } from './summarizer';
+import type { SummariseResponse } from './schema';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// A summary as returned by the history API
+export interface StoredSummary {
+  id: string;
+  url: string;
+  domain: string | null;
+  summary: string;
+  translations: Record<string, string>;
+  metadata: ArticleMetadata | null;
+  sentences: SelectedSentence[];
+  totalSentences: number;
+  // Library items only: the owner's tags and star
+  tags: string[];
+  starred: boolean;
+  createdAt: string;
+}
+
+export interface SummaryListFilter {
+  // Whose library to list; null (default) for the shared history of signed-out summaries
+  ownerId?: string | null;
+  tag?: string;
+  starred?: boolean;
+  url?: string;
+  domain?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface SummaryPage {
+  items: StoredSummary[];
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+}
+
+// --- Helper: Hostname without "www." used for domain filtering ---
+export function domainOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+function toStoredSummary(doc: Document): StoredSummary {
+  return {
+    id: String(doc._id),
+    url: doc.url || '',
+    domain: doc.domain ?? (doc.url ? domainOf(doc.url) : null),
+    summary: doc.summary || '',
+    // Documents saved before multi-language support only have urduSummary
+    translations: doc.translations ?? (doc.urduSummary ? { ur: doc.urduSummary } : {}),
+    metadata: doc.metadata ?? null,
+    sentences: doc.sentences ?? [],
+    totalSentences: doc.totalSentences ?? 0,
+    tags: doc.tags ?? [],
+    starred: doc.starred ?? false,
+    createdAt: (doc.createdAt instanceof Date ? doc.createdAt : new Date(doc.createdAt)).toISOString(),
+  };
+}
+
+// --- List stored summaries, newest first ---
+export async function listSummaries(filter: SummaryListFilter = {}): Promise<SummaryPage> {
+  const page = Math.max(1, Math.floor(filter.page ?? 1));
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(filter.limit ?? DEFAULT_PAGE_SIZE)));
+  // Documents saved before accounts existed have no ownerId, which matches null
+  const query: Filter<Document> = { ownerId: filter.ownerId ?? null };
+  if (filter.tag) query.tags = filter.tag.toLowerCase();
+  if (filter.starred !== undefined) query.starred = filter.starred;
+  if (filter.url) query.url = filter.url;
+  if (filter.domain) {
+    // Match the domain itself and its subdomains
+    const domain = filter.domain.toLowerCase().replace(/^www\./, '');
+    query.domain = { $regex: `(^|\\.)${domain.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$` };
+  }
+  if (filter.from || filter.to) {
+    query.createdAt = {
+      ...(filter.from ? { $gte: filter.from } : {}),
+      ...(filter.to ? { $lte: filter.to } : {}),
+    };
+  }
+
+  const collection = (await getDb()).collection('summaries');
+  const [docs, total] = await Promise.all([
+    collection.find(query).sort({ createdAt: -1 }).skip((page - 1) * limit).limit(limit).toArray(),
+    collection.countDocuments(query),
+  ]);
+  return {
+    items: docs.map(toStoredSummary),
+    page,
+    limit,
+    total,
+    hasMore: page * limit < total,
+  };
+}
+
+// --- Fetch one stored summary; null when the id is unknown, malformed or in someone else's library ---
+export async function getSummary(id: string, viewerId: string | null = null): Promise<StoredSummary | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const doc = await (await getDb()).collection('summaries').findOne({ _id: new ObjectId(id), ownerId: { $in: [null, viewerId] } });
+  return doc ? toStoredSummary(doc) : null;
+}
+
+// --- Save a result to its owner's library: one item per article and option set, like the cache ---
+export async function saveOwnedSummary(ownerId: string, cacheKey: string, url: string, result: SummariseResponse): Promise<string> {
+  const { summary, translations, metadata, sentences, totalSentences } = result;
+  const now = new Date();
+  const doc = await (await getDb()).collection('summaries').findOneAndUpdate(
+    { cacheKey, ownerId },
+    {
+      $set: { url, domain: url ? domainOf(url) : null, summary, translations, metadata, sentences, totalSentences, updatedAt: now },
+      $setOnInsert: { cacheKey, ownerId, tags: [], starred: false, createdAt: now },
+    },
+    { upsert: true, returnDocument: 'after', projection: { _id: 1 } }
+  );
+  return String(doc!._id);
+}
+
+// --- Change the tags or star of an item in the owner's library; null when they have no such item ---
+export async function updateOwnedSummary(
+  id: string,
+  ownerId: string,
+  update: { tags?: string[]; starred?: boolean }
+): Promise<StoredSummary | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const doc = await (await getDb()).collection('summaries').findOneAndUpdate(
+    { _id: new ObjectId(id), ownerId },
+    { $set: { ...update, updatedAt: new Date() } },
+    { returnDocument: 'after' }
+  );
+  return doc ? toStoredSummary(doc) : null;
+}
+
+export async function deleteOwnedSummary(id: string, ownerId: string): Promise<boolean> {
+  if (!ObjectId.isValid(id)) return false;
+  const { deletedCount } = await (await getDb()).collection('summaries').deleteOne({ _id: new ObjectId(id), ownerId });
+  return deletedCount > 0;
+}
@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import type { Document } from 'mongodb';
+import { getDb } from './mongodb';
+import {
+  PIPELINE_STAGES,
+  runSummarise,
+  type PipelineStage,
+  type SummariseRequest,
+  type SummariseResponse,
+} from './pipeline';
+import { SummariseError, toErrorBody, type ErrorCode } from './errors';
+
+const JOBS_COLLECTION = 'jobs';
+// Finished jobs are kept long enough for a client to come back and read the result
+const JOB_TTL_SECONDS = 24 * 60 * 60;
+// Longest a job may run; matches the jobs route's maxDuration, after which the platform stops the function
+export const JOB_MAX_RUN_SECONDS = 300;
+// A job still unfinished this long after it started (or was queued) was lost with its function
+const JOB_STALE_SECONDS = JOB_MAX_RUN_SECONDS + 60;
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+// Reply to POST /api/jobs
+export interface JobCreated {
+  id: string;
+  status: JobStatus;
+  statusUrl: string;
+}
+
+export interface SummariseJob {
+  id: string;
+  status: JobStatus;
+  // Last pipeline stage reached while running
+  stage: PipelineStage | null;
+  // 0..1, from the stage reached; 1 once the job has finished
+  progress: number;
+  request: SummariseRequest;
+  result: SummariseResponse | null;
+  error: string | null;
+  errorCode: ErrorCode | null;
+  // HTTP status the same failure would have had on /api/summarise
+  errorStatus: number | null;
+  createdAt: string;
+  // When a worker claimed the job; null while queued
+  startedAt: string | null;
+  updatedAt: string;
+}
+
+// What the status endpoint returns; the request can hold the full pasted text, which the client already has
+export type JobStatusView = Omit<SummariseJob, 'request'>;
+
+type JobUpdate = Partial<Pick<SummariseJob, 'status' | 'stage' | 'progress' | 'result' | 'error' | 'errorCode' | 'errorStatus'>>;
+
+export interface JobStore {
+  name: string;
+  create(request: SummariseRequest): Promise<SummariseJob>;
+  get(id: string): Promise<SummariseJob | null>;
+  // Moves a queued job to running; null when another worker already took it
+  claim(id: string): Promise<SummariseJob | null>;
+  update(id: string, update: JobUpdate): Promise<void>;
+  // Fails a queued or running job that started (or, still queued, was created) before staleBefore; null when it isn't stale
+  failStale(id: string, staleBefore: Date, update: JobUpdate): Promise<SummariseJob | null>;
+}
+
+// --- Helper: Progress for a stage, as the fraction of pipeline stages already passed ---
+export function stageProgress(stage: PipelineStage): number {
+  return Number((PIPELINE_STAGES.indexOf(stage) / PIPELINE_STAGES.length).toFixed(2));
+}
+
+export function toJobStatusView(job: SummariseJob): JobStatusView {
+  const { id, status, stage, progress, result, error, errorCode, errorStatus, createdAt, startedAt, updatedAt } = job;
+  return { id, status, stage, progress, result, error, errorCode, errorStatus, createdAt, startedAt, updatedAt };
+}
+
+function newJob(request: SummariseRequest): SummariseJob {
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    status: 'queued',
+    stage: null,
+    progress: 0,
+    request,
+    result: null,
+    error: null,
+    errorCode: null,
+    errorStatus: null,
+    createdAt: now,
+    startedAt: null,
+    updatedAt: now,
+  };
+}
+
+function toJob(doc: Document): SummariseJob {
+  return {
+    id: doc.jobId,
+    status: doc.status,
+    stage: doc.stage ?? null,
+    progress: doc.progress ?? 0,
+    request: doc.request,
+    result: doc.result ?? null,
+    error: doc.error ?? null,
+    errorCode: doc.errorCode ?? null,
+    errorStatus: doc.errorStatus ?? null,
+    createdAt: new Date(doc.createdAt).toISOString(),
+    startedAt: doc.startedAt ? new Date(doc.startedAt).toISOString() : null,
+    updatedAt: new Date(doc.updatedAt).toISOString(),
+  };
+}
+
+let indexesReady: Promise<unknown> | null = null;
+
+// --- Store: jobs collection in MongoDB, shared by every server instance ---
+export function createMongoJobStore(): JobStore {
+  const jobs = async () => {
+    const collection = (await getDb()).collection(JOBS_COLLECTION);
+    if (!indexesReady) {
+      indexesReady = Promise.all([
+        collection.createIndex({ jobId: 1 }, { unique: true }),
+        collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+      ]).catch((error) => {
+        indexesReady = null;
+        throw error;
+      });
+    }
+    await indexesReady;
+    return collection;
+  };
+  const expiresAt = () => new Date(Date.now() + JOB_TTL_SECONDS * 1000);
+
+  return {
+    name: 'mongodb',
+    async create(request: SummariseRequest): Promise<SummariseJob> {
+      const job = newJob(request);
+      const { id, createdAt, updatedAt, ...fields } = job;
+      await (await jobs()).insertOne({
+        ...fields,
+        jobId: id,
+        createdAt: new Date(createdAt),
+        updatedAt: new Date(updatedAt),
+        expiresAt: expiresAt(),
+      });
+      return job;
+    },
+    async get(id: string): Promise<SummariseJob | null> {
+      const doc = await (await jobs()).findOne({ jobId: id });
+      return doc ? toJob(doc) : null;
+    },
+    async claim(id: string): Promise<SummariseJob | null> {
+      const doc = await (await jobs()).findOneAndUpdate(
+        { jobId: id, status: 'queued' },
+        { $set: { status: 'running', startedAt: new Date(), updatedAt: new Date() } },
+        { returnDocument: 'after' }
+      );
+      return doc ? toJob(doc) : null;
+    },
+    async update(id: string, update: JobUpdate): Promise<void> {
+      await (await jobs()).updateOne({ jobId: id }, { $set: { ...update, updatedAt: new Date(), expiresAt: expiresAt() } });
+    },
+    async failStale(id: string, staleBefore: Date, update: JobUpdate): Promise<SummariseJob | null> {
+      const doc = await (await jobs()).findOneAndUpdate(
+        {
+          jobId: id,
+          status: { $in: ['queued', 'running'] },
+          $or: [{ startedAt: { $lt: staleBefore } }, { startedAt: null, createdAt: { $lt: staleBefore } }],
+        },
+        { $set: { ...update, updatedAt: new Date(), expiresAt: expiresAt() } },
+        { returnDocument: 'after' }
+      );
+      return doc ? toJob(doc) : null;
+    },
+  };
+}
+
+// --- Store: in-process map, for tests and local runs without MongoDB ---
+export function createMemoryJobStore(): JobStore {
+  const jobs = new Map<string, SummariseJob>();
+
+  return {
+    name: 'memory',
+    async create(request: SummariseRequest): Promise<SummariseJob> {
+      const job = newJob(request);
+      jobs.set(job.id, job);
+      return { ...job };
+    },
+    async get(id: string): Promise<SummariseJob | null> {
+      const job = jobs.get(id);
+      return job ? { ...job } : null;
+    },
+    async claim(id: string): Promise<SummariseJob | null> {
+      const job = jobs.get(id);
+      if (!job || job.status !== 'queued') return null;
+      job.status = 'running';
+      job.startedAt = job.updatedAt = new Date().toISOString();
+      return { ...job };
+    },
+    async update(id: string, update: JobUpdate): Promise<void> {
+      const job = jobs.get(id);
+      if (job) jobs.set(id, { ...job, ...update, updatedAt: new Date().toISOString() });
+    },
+    async failStale(id: string, staleBefore: Date, update: JobUpdate): Promise<SummariseJob | null> {
+      const job = jobs.get(id);
+      if (!job || (job.status !== 'queued' && job.status !== 'running')) return null;
+      if (Date.parse(job.startedAt ?? job.createdAt) >= staleBefore.getTime()) return null;
+      const failed = { ...job, ...update, updatedAt: new Date().toISOString() };
+      jobs.set(id, failed);
+      return { ...failed };
+    },
+  };
+}
+
+let memoryStore: JobStore | null = null;
+
+// Selects the job store from environment config:
+//   JOB_BACKEND = mongodb (default) | memory
+export function getJobStore(env: NodeJS.ProcessEnv = process.env): JobStore {
+  const backend = (env.JOB_BACKEND || 'mongodb').toLowerCase();
+  switch (backend) {
+    case 'mongodb':
+      return createMongoJobStore();
+    case 'memory':
+      // One shared store per process so the status route sees jobs created by the submit route
+      if (!memoryStore) memoryStore = createMemoryJobStore();
+      return memoryStore;
+    default:
+      throw new Error(`Unknown JOB_BACKEND "${backend}"`);
+  }
+}
+
+// --- Helper: The fields of a failed job ---
+function failure(error: unknown): JobUpdate {
+  const { body, status } = toErrorBody(error);
+  return { status: 'failed', progress: 1, error: body.error, errorCode: body.code, errorStatus: status };
+}
+
+// --- A job by id; one left queued or running past JOB_STALE_SECONDS was lost with its function and is failed first ---
+export async function getJobStatus(id: string, store: JobStore = getJobStore()): Promise<SummariseJob | null> {
+  const job = await store.get(id);
+  if (!job || (job.status !== 'queued' && job.status !== 'running')) return job;
+  const staleBefore = new Date(Date.now() - JOB_STALE_SECONDS * 1000);
+  if (Date.parse(job.startedAt ?? job.createdAt) >= staleBefore.getTime()) return job;
+  const lost = new SummariseError('INTERNAL', 'The job stopped before it finished. Please submit it again.');
+  // Null when another status read failed it first
+  return (await store.failStale(id, staleBefore, failure(lost))) ?? store.get(id);
+}
+
+// --- Run a queued job through the pipeline, recording stage, progress and outcome ---
+export async function processJob(id: string, store: JobStore = getJobStore()): Promise<void> {
+  const job = await store.claim(id);
+  if (!job) return;
+
+  // Stage updates are written in order; the final update waits for the last of them
+  let writes: Promise<void> = Promise.resolve();
+  const record = (update: JobUpdate) => {
+    writes = writes.then(() => store.update(id, update)).catch((error) => console.error('Job update error:', error));
+  };
+  // Servers without a platform time limit stop waiting at the same point
+  let finished = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new SummariseError('INTERNAL', `The job took longer than ${JOB_MAX_RUN_SECONDS} seconds. Please submit it again.`, 504)),
+      JOB_MAX_RUN_SECONDS * 1000
+    );
+  });
+  try {
+    const result = await Promise.race([
+      runSummarise(job.request, (event) => {
+        // A timed-out pipeline may still report stages; the job has already failed by then
+        if (event.type === 'stage' && !finished) record({ stage: event.stage, progress: stageProgress(event.stage) });
+      }),
+      timeout,
+    ]);
+    record({ status: 'completed', progress: 1, result });
+  } catch (error: unknown) {
+    console.error(`Job ${id} error:`, error);
+    record(failure(error));
+  } finally {
+    finished = true;
+    clearTimeout(timer);
+  }
+  await writes;
+}
@@ -0,0 +1,37 @@
+// Translation targets supported by the summariser. Shared by the API route and the UI.
+export interface LanguageInfo {
+  code: string;
+  name: string;
+  nativeName: string;
+  // Heading shown above the translated summary
+  summaryLabel: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGES: Record<string, LanguageInfo> = {
+  ur: { code: 'ur', name: 'Urdu', nativeName: 'اردو', summaryLabel: 'اردو خلاصہ', dir: 'rtl' },
+  pa: { code: 'pa', name: 'Punjabi', nativeName: 'پنجابی', summaryLabel: 'پنجابی خلاصہ', dir: 'rtl' },
+  sd: { code: 'sd', name: 'Sindhi', nativeName: 'سنڌي', summaryLabel: 'سنڌي خلاصو', dir: 'rtl' },
+  ar: { code: 'ar', name: 'Arabic', nativeName: 'العربية', summaryLabel: 'الملخص العربي', dir: 'rtl' },
+  hi: { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी', summaryLabel: 'हिन्दी सारांश', dir: 'ltr' },
+};
+
+export const DEFAULT_LANGUAGES = ['ur'];
+
+export function isSupportedLanguage(code: string): boolean {
+  return Object.prototype.hasOwnProperty.call(LANGUAGES, code);
+}
+
+// Accepts language codes or English names ("Urdu", "hi") and returns the known codes, de-duplicated.
+export function normalizeLanguages(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+  const codes = input
+    .filter((l): l is string => typeof l === 'string')
+    .map((l) => {
+      const key = l.trim().toLowerCase();
+      if (isSupportedLanguage(key)) return key;
+      const byName = Object.values(LANGUAGES).find((info) => info.name.toLowerCase() === key);
+      return byName ? byName.code : key;
+    });
+  return Array.from(new Set(codes));
+}
@@ -0,0 +1,19 @@
+import { MongoClient, type Db } from 'mongodb';
+
+const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/blog-summariser';
+const DB_NAME = 'blog-summariser';
+
+// Reuse one client per process; in dev the global survives hot reloads.
+const globalForMongo = globalThis as unknown as { _mongoClientPromise?: Promise<MongoClient> | null };
+
+export async function getDb(): Promise<Db> {
+  if (!globalForMongo._mongoClientPromise) {
+    globalForMongo._mongoClientPromise = new MongoClient(MONGODB_URI).connect().catch((error) => {
+      // Allow the next request to retry instead of caching the failure
+      globalForMongo._mongoClientPromise = null;
+      throw error;
+    });
+  }
+  const client = await globalForMongo._mongoClientPromise;
+  return client.db(DB_NAME);
+}
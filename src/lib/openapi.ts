@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import packageJson from '../../package.json';
+import { ERROR_STATUS, type ErrorCode } from './errors';
+import { PIPELINE_STAGES } from './pipeline';
+import { SummariseOptionsSchema, SummariseRequestSchema, SummariseResponseSchema } from './schema';
+
+const ERROR_CODES = Object.keys(ERROR_STATUS) as [ErrorCode, ...ErrorCode[]];
+
+// What errorResponse sends (see ErrorBody in ./errors)
+const ErrorBodySchema = z.object({
+  error: z.string().meta({ description: 'Human-readable message' }),
+  code: z.enum(ERROR_CODES),
+  fields: z
+    .array(z.object({ field: z.string(), message: z.string() }))
+    .optional()
+    .meta({ description: 'VALIDATION_FAILED only: every invalid field, by dotted path' }),
+});
+
+type JsonSchema = Record<string, unknown> & { properties?: Record<string, unknown> };
+
+// --- Helper: Zod schema as a JSON Schema (2020-12, as OpenAPI 3.1 uses) without the $schema header ---
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output' = 'output'): JsonSchema {
+  const json: JsonSchema = z.toJSONSchema(schema, { io });
+  delete json.$schema;
+  return json;
+}
+
+// Sent by withApiAccess (see ./access); Retry-After only with 429
+const RATE_LIMIT_HEADERS = {
+  'Retry-After': { description: 'Seconds until the next request is allowed', schema: { type: 'integer' } },
+  'X-RateLimit-Limit': { description: 'Requests allowed per window', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left in the current sliding window', schema: { type: 'integer' } },
+};
+
+// Keyless requests are allowed unless API_KEY_REQUIRED is set (see ./apikeys)
+const SECURITY = [{}, { ApiKeyHeader: [] }, { BearerApiKey: [] }];
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+// --- Helper: One response per error status, listing the codes sent with it ---
+function errorResponses(): Record<string, unknown> {
+  const byStatus = new Map<number, ErrorCode[]>();
+  ERROR_CODES.forEach((code) => byStatus.set(ERROR_STATUS[code], [...(byStatus.get(ERROR_STATUS[code]) ?? []), code]));
+  return Object.fromEntries(
+    [...byStatus].sort(([a], [b]) => a - b).map(([status, codes]) => [
+      String(status),
+      {
+        description: `Error: ${codes.join(', ')}`,
+        ...(status === ERROR_STATUS.RATE_LIMITED && { headers: RATE_LIMIT_HEADERS }),
+        content: { 'application/json': { schema: ref('ErrorBody') } },
+      },
+    ])
+  );
+}
+
+// --- OpenAPI document for the summarise endpoints, generated from ./schema ---
+export function buildOpenApiDocument() {
+  const options = jsonSchema(SummariseOptionsSchema, 'input');
+  const summariseBody = {
+    required: true,
+    content: {
+      'application/json': { schema: ref('SummariseRequest') },
+      // File uploads: the document plus the options, each as a JSON-encoded field
+      'multipart/form-data': {
+        schema: {
+          type: 'object',
+          properties: {
+            file: { type: 'string', contentMediaType: 'application/octet-stream', description: 'PDF, DOCX, Markdown, HTML or TXT' },
+            ...options.properties,
+          },
+          required: ['file'],
+        },
+        encoding: Object.fromEntries(Object.keys(options.properties ?? {}).map((field) => [field, { contentType: 'application/json' }])),
+      },
+    },
+  };
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Blog Summariser API',
+      version: packageJson.version,
+      description: 'Extractive summaries of blog posts and articles, translated into Urdu and other languages.',
+    },
+    paths: {
+      '/api/summarise': {
+        post: {
+          operationId: 'summarise',
+          security: SECURITY,
+          summary: 'Summarise article text, a URL or an uploaded document',
+          requestBody: summariseBody,
+          responses: {
+            '200': {
+              description: 'The summary; with `stream: true`, newline-delimited pipeline events ending in a result or error event',
+              content: {
+                'application/json': { schema: ref('SummariseResponse') },
+                'application/x-ndjson': {
+                  schema: {
+                    type: 'string',
+                    description: `One JSON event per line: stage (${PIPELINE_STAGES.join(', ')}), summary, translation, then result or error`,
+                  },
+                },
+              },
+            },
+            ...errorResponses(),
+          },
+        },
+      },
+      '/api/jobs': {
+        post: {
+          operationId: 'createJob',
+          security: SECURITY,
+          summary: 'Queue a summary to run in the background',
+          requestBody: { required: true, content: { 'application/json': summariseBody.content['application/json'] } },
+          responses: {
+            '202': {
+              description: 'Queued; poll statusUrl for progress and the result',
+              content: {
+                'application/json': {
+                  schema: {
+                    type: 'object',
+                    properties: { id: { type: 'string' }, status: { type: 'string', const: 'queued' }, statusUrl: { type: 'string' } },
+                    required: ['id', 'status', 'statusUrl'],
+                  },
+                },
+              },
+            },
+            ...errorResponses(),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        SummariseRequest: jsonSchema(SummariseRequestSchema, 'input'),
+        SummariseResponse: jsonSchema(SummariseResponseSchema),
+        ErrorBody: jsonSchema(ErrorBodySchema),
+      },
+      securitySchemes: {
+        ApiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        BearerApiKey: { type: 'http', scheme: 'bearer', description: 'The same API key, as a bearer token' },
+      },
+    },
+  };
+}
@@ -0,0 +1,243 @@
+import { getTranslationProvider, type TranslationProvider } from './translation';
+import { scrapeBlogContent } from './scraper';
+import type { ArticleMetadata } from './extractor';
+import { cacheKey, getCachedSummary, hashContent, normalizeUrl, setCachedSummary } from './cache';
+import { getDb } from './mongodb';
+import { domainOf, saveOwnedSummary } from './history';
+import { getSearchIndex } from './search';
+import { summarizeText, type SelectedSentence, type SentenceOrder, type SummaryAlgorithm, type SummaryLength } from './summarizer';
+import { SummariseError, ValidationError, type ErrorCode } from './errors';
+import { fieldErrors, MAX_TEXT_LENGTH, MIN_TEXT_LENGTH, SummariseRequestSchema, type SummariseRequestBody, type SummariseResponse } from './schema';
+
+// Steps of the summarise pipeline, in order. URL input adds fetching and extracting.
+export type PipelineStage = 'fetching' | 'extracting' | 'summarizing' | 'translating' | 'saving';
+
+export const PIPELINE_STAGES: PipelineStage[] = ['fetching', 'extracting', 'summarizing', 'translating', 'saving'];
+
+// Request and response shapes are declared in ./schema
+export type { SummariseRequestBody, SummariseResponse };
+
+export interface SummariseRequest {
+  text?: string;
+  url?: string;
+  // Translation targets; empty for an English-only summary
+  languages: string[];
+  length: SummaryLength;
+  order: SentenceOrder;
+  algorithm: SummaryAlgorithm;
+  // Skip the cache and reprocess the article
+  force: boolean;
+  // Known up front for uploaded files (file name, document properties)
+  metadata?: ArticleMetadata;
+  // Signed-in user whose library the summary is saved to
+  ownerId?: string;
+}
+
+export type PipelineEvent =
+  | { type: 'stage'; stage: PipelineStage }
+  | { type: 'summary'; summary: string; sentences: SelectedSentence[]; totalSentences: number; metadata: ArticleMetadata | null }
+  | { type: 'translation'; language: string; text: string }
+  | { type: 'result'; result: SummariseResponse }
+  | { type: 'error'; error: string; code: ErrorCode; status: number };
+
+export { SummariseError };
+
+// --- Validate a request body into a SummariseRequest (throws ValidationError listing each invalid field) ---
+export function parseSummariseRequest(body: unknown): SummariseRequest {
+  const parsed = SummariseRequestSchema.safeParse(body);
+  if (!parsed.success) throw new ValidationError(fieldErrors(parsed.error));
+  const { text, url, languages, length, order, algorithm, force } = parsed.data;
+  const request = { languages, length, order, algorithm, force };
+  // Text wins when it is long enough; otherwise the URL (the schema guarantees one of them)
+  if (text && text.trim().length >= MIN_TEXT_LENGTH) return { ...request, text: text.trim() };
+  return { ...request, url: url!.trim() };
+}
+
+// --- Helper: Cache lookup that never fails the request ---
+async function lookupCache(keys: string[]): Promise<SummariseResponse | null> {
+  try {
+    return await getCachedSummary<SummariseResponse>(keys);
+  } catch (error) {
+    console.error('Cache lookup error:', error);
+    return null;
+  }
+}
+
+// --- Translate a summary into every language; per-language failures are collected, not thrown ---
+// Both records list languages in the requested order, whichever translation finishes first
+export async function translateSummary(
+  summary: string,
+  languages: string[],
+  onTranslation: (language: string, text: string) => void = () => {}
+): Promise<{ translations: Record<string, string>; translationErrors: Record<string, string> }> {
+  if (languages.length === 0) return { translations: {}, translationErrors: {} };
+  let translator: TranslationProvider;
+  try {
+    translator = getTranslationProvider();
+  } catch (err) {
+    console.error('Translation error:', err);
+    throw new SummariseError('TRANSLATION_UNAVAILABLE', 'Translation is unavailable: ' + (err instanceof Error ? err.message : String(err)));
+  }
+  const outcomes = await Promise.all(languages.map(async (lang) => {
+    try {
+      const text = await translator.translate(summary, lang);
+      onTranslation(lang, text);
+      return { lang, text };
+    } catch (err) {
+      console.error(`Translation error (${lang}):`, err);
+      return { lang, error: err instanceof Error ? err.message : String(err) };
+    }
+  }));
+  return {
+    translations: Object.fromEntries(outcomes.flatMap(({ lang, text }) => (text === undefined ? [] : [[lang, text]]))),
+    translationErrors: Object.fromEntries(outcomes.flatMap(({ lang, error }) => (error === undefined ? [] : [[lang, error]]))),
+  };
+}
+
+// --- Run scrape → summarize → translate → save, reporting progress through onEvent ---
+export async function runSummarise(
+  request: SummariseRequest,
+  onEvent: (event: PipelineEvent) => void = () => {}
+): Promise<SummariseResponse> {
+  const { languages, length, order, algorithm, force } = request;
+  const options = { languages: [...languages].sort(), length, order, algorithm };
+  const finish = (result: SummariseResponse) => {
+    onEvent({ type: 'result', result });
+    return result;
+  };
+  // Signed-in users keep their own copy in their library, cached results included
+  const saveToLibrary = async (key: string, result: SummariseResponse) => {
+    if (!request.ownerId) return;
+    try {
+      await saveOwnedSummary(request.ownerId, key, url, result);
+    } catch (error) {
+      console.error('Library save error:', error);
+    }
+  };
+
+  let text = request.text || '';
+  const url = request.url || '';
+  let metadata: ArticleMetadata | null = request.metadata ?? null;
+  let urlKey: string | null = null;
+  if (url) {
+    urlKey = cacheKey(`url:${normalizeUrl(url)}`, options);
+    const cached = force ? null : await lookupCache([urlKey]);
+    if (cached) {
+      await saveToLibrary(urlKey, cached);
+      return finish({ ...cached, cached: true });
+    }
+
+    // Paginated articles report fetching/extracting once per page
+    const { text: articleText, ...articleMetadata } = await scrapeBlogContent(url, {
+      onProgress: (stage) => onEvent({ type: 'stage', stage }),
+    });
+    text = articleText;
+    metadata = articleMetadata;
+    if (!text || text.length < MIN_TEXT_LENGTH) {
+      throw new SummariseError('CONTENT_TOO_SHORT', 'Could not extract enough content from the provided URL.');
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      throw new SummariseError('CONTENT_TOO_LARGE', `The article is too long to summarise (limit ${MAX_TEXT_LENGTH.toLocaleString('en')} characters).`);
+    }
+  }
+
+  // The same article reached through another URL (or pasted as text) shares the content-hash entry
+  const contentHash = hashContent(text);
+  const contentKey = cacheKey(`content:${contentHash}`, options);
+  const cachedContent = force ? null : await lookupCache([contentKey]);
+  if (cachedContent) {
+    await saveToLibrary(urlKey ?? contentKey, cachedContent);
+    return finish({ ...cachedContent, cached: true });
+  }
+
+  onEvent({ type: 'stage', stage: 'summarizing' });
+  const { summary, sentences, totalSentences } = summarizeText(text, { length, order, algorithm });
+  if (!summary || summary.trim().length < 50) {
+    throw new SummariseError('CONTENT_TOO_SHORT', 'Could not generate summary: the text is too short or has too few sentences.');
+  }
+  onEvent({ type: 'summary', summary, sentences, totalSentences, metadata });
+
+  // ✅ Translation using the configured provider, one call per target language (none requested: English only)
+  let translations: Record<string, string> = {};
+  let translationErrors: Record<string, string> = {};
+  if (languages.length > 0) {
+    onEvent({ type: 'stage', stage: 'translating' });
+    ({ translations, translationErrors } = await translateSummary(summary, languages, (language, text) =>
+      onEvent({ type: 'translation', language, text })
+    ));
+    if (Object.keys(translations).length === 0) {
+      throw new SummariseError('TRANSLATION_UNAVAILABLE', 'Failed to translate summary: ' + Object.values(translationErrors).join('; '));
+    }
+  }
+
+  const response: SummariseResponse = {
+    summary,
+    translations,
+    ...(Object.keys(translationErrors).length > 0 ? { translationErrors } : {}),
+    urduSummary: translations.ur,
+    originalLength: text.length,
+    summaryLength: summary.length,
+    compressionRatio: Number((summary.length / text.length).toFixed(4)),
+    algorithm,
+    metadata,
+    sentences,
+    totalSentences,
+    cached: false,
+  };
+
+  // Optional: Save summary and translation, one document per article / per option set
+  onEvent({ type: 'stage', stage: 'saving' });
+  if (request.ownerId) {
+    // Library items are private: they stay out of the shared history and search index
+    await saveToLibrary(urlKey ?? contentKey, response);
+  } else {
+    let summaryId: string | null = null;
+    try {
+      const db = await getDb();
+      const now = new Date();
+      await db.collection('blogs').updateOne(
+        { contentHash },
+        { $set: { url, text, metadata, updatedAt: now }, $setOnInsert: { contentHash, createdAt: now } },
+        { upsert: true }
+      );
+      await db.collection('summaries').updateOne(
+        { cacheKey: contentKey, ownerId: null },
+        {
+          $set: { url, domain: url ? domainOf(url) : null, summary, translations, metadata, sentences, totalSentences, updatedAt: now },
+          $setOnInsert: { cacheKey: contentKey, contentHash, createdAt: now },
+        },
+        { upsert: true }
+      );
+      const saved = await db.collection('summaries').findOne({ cacheKey: contentKey, ownerId: null }, { projection: { _id: 1 } });
+      summaryId = saved ? String(saved._id) : null;
+    } catch (error) {
+      console.error('MongoDB save error:', error);
+    }
+
+    try {
+      await getSearchIndex().index({
+        id: contentHash,
+        url,
+        title: metadata?.title || '',
+        summary,
+        text,
+        summaryId,
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      console.error('Search index error:', error);
+    }
+  }
+
+  // Partial translations are not cached so a retry can fill in the missing languages
+  if (Object.keys(translationErrors).length === 0) {
+    const keys = urlKey ? [urlKey, contentKey] : [contentKey];
+    try {
+      await setCachedSummary(keys, response);
+    } catch (error) {
+      console.error('Cache save error:', error);
+    }
+  }
+
+  return finish(response);
+}
@@ -0,0 +1,210 @@
+import type { NextRequest } from 'next/server';
+import { getDb } from './mongodb';
+import { SummariseError } from './errors';
+import { SOCKET_ADDRESS_HEADER, socketAddressesRecorded } from './socketaddress';
+
+const RATE_LIMITS_COLLECTION = 'rate_limits';
+
+export interface RateLimitConfig {
+  windowSeconds: number;
+  // Requests per window; 0 turns that limit off
+  perIp: number;
+  perKey: number;
+  // Sign-in and sign-up attempts per IP, counted apart from the summarise routes
+  perIpAuth: number;
+  // Proxies in front of the app that append to X-Forwarded-For; 0 when clients connect directly
+  trustedProxies: number;
+}
+
+// Request counts for a client in the current fixed window and the one before it
+export interface WindowCounts {
+  current: number;
+  previous: number;
+  // Start of the current window, ms since the epoch
+  windowStart: number;
+}
+
+export interface RateLimitStore {
+  name: string;
+  // Counts a request costing `cost` units for the client and returns the counts including it
+  hit(client: string, windowMs: number, cost?: number): Promise<WindowCounts>;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the next request would be allowed; 0 when it already is
+  retryAfter: number;
+}
+
+const numberFrom = (value: string | undefined, fallback: number) => {
+  const n = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+export function rateLimitConfig(env: NodeJS.ProcessEnv = process.env): RateLimitConfig {
+  return {
+    windowSeconds: numberFrom(env.RATE_LIMIT_WINDOW_SECONDS, 60) || 60,
+    perIp: numberFrom(env.RATE_LIMIT_PER_IP, 10),
+    perKey: numberFrom(env.RATE_LIMIT_PER_KEY, 60),
+    perIpAuth: numberFrom(env.RATE_LIMIT_AUTH_PER_IP, 5),
+    trustedProxies: Math.floor(numberFrom(env.TRUSTED_PROXY_COUNT, 1)),
+  };
+}
+
+const windowStartOf = (now: number, windowMs: number) => Math.floor(now / windowMs) * windowMs;
+
+// --- Sliding window: the previous window's count, weighted by how much of it still overlaps the last windowMs ---
+export function decide(counts: WindowCounts, limit: number, windowMs: number, now = Date.now()): RateLimitDecision {
+  const elapsed = (now - counts.windowStart) / windowMs;
+  const used = counts.previous * (1 - elapsed) + counts.current;
+  if (used <= limit) {
+    return { allowed: true, limit, remaining: Math.max(0, Math.floor(limit - used)), retryAfter: 0 };
+  }
+
+  // Rejected requests count too, so the next one is allowed once the weighted count has room for it again
+  let wait: number;
+  const room = limit - counts.current - 1;
+  if (room >= 0 && counts.previous > 0) {
+    wait = (1 - room / counts.previous - elapsed) * windowMs;
+  } else {
+    // Not before this window ends and its requests start to age out
+    wait = (1 - elapsed) * windowMs + Math.max(0, 1 - (limit - 1) / counts.current) * windowMs;
+  }
+  return { allowed: false, limit, remaining: 0, retryAfter: Math.max(1, Math.ceil(wait / 1000)) };
+}
+
+let indexesReady: Promise<unknown> | null = null;
+
+// --- Store: one counter document per client and window in MongoDB, shared by every server instance ---
+export function createMongoRateLimitStore(): RateLimitStore {
+  const counters = async () => {
+    const collection = (await getDb()).collection<{ _id: string; count: number; expiresAt: Date }>(RATE_LIMITS_COLLECTION);
+    if (!indexesReady) {
+      indexesReady = collection.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }).catch((error) => {
+        indexesReady = null;
+        throw error;
+      });
+    }
+    await indexesReady;
+    return collection;
+  };
+
+  return {
+    name: 'mongodb',
+    async hit(client: string, windowMs: number, cost = 1): Promise<WindowCounts> {
+      const collection = await counters();
+      const windowStart = windowStartOf(Date.now(), windowMs);
+      const [current, previous] = await Promise.all([
+        collection.findOneAndUpdate(
+          { _id: `${client}:${windowStart}` },
+          // Kept until the next window no longer looks back at it
+          { $inc: { count: cost }, $setOnInsert: { expiresAt: new Date(windowStart + 2 * windowMs) } },
+          { upsert: true, returnDocument: 'after' }
+        ),
+        collection.findOne({ _id: `${client}:${windowStart - windowMs}` }),
+      ]);
+      return { current: current?.count ?? cost, previous: previous?.count ?? 0, windowStart };
+    },
+  };
+}
+
+// --- Store: in-process counters, for tests and local runs without MongoDB ---
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, WindowCounts>();
+  let nextSweep = 0;
+
+  return {
+    name: 'memory',
+    async hit(client: string, windowMs: number, cost = 1): Promise<WindowCounts> {
+      const now = Date.now();
+      const windowStart = windowStartOf(now, windowMs);
+      // Drop clients with nothing left in the sliding window, once per window
+      if (now >= nextSweep) {
+        counters.forEach((counts, key) => {
+          if (counts.windowStart < windowStart - windowMs) counters.delete(key);
+        });
+        nextSweep = windowStart + windowMs;
+      }
+
+      const counts = counters.get(client);
+      let next: WindowCounts;
+      if (!counts || counts.windowStart < windowStart - windowMs) {
+        next = { current: cost, previous: 0, windowStart };
+      } else if (counts.windowStart < windowStart) {
+        next = { current: cost, previous: counts.current, windowStart };
+      } else {
+        next = { ...counts, current: counts.current + cost };
+      }
+      counters.set(client, next);
+      return { ...next };
+    },
+  };
+}
+
+let memoryStore: RateLimitStore | null = null;
+
+// Selects the rate limit store from environment config:
+//   RATE_LIMIT_BACKEND = mongodb (default) | memory
+export function getRateLimitStore(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  const backend = (env.RATE_LIMIT_BACKEND || 'mongodb').toLowerCase();
+  switch (backend) {
+    case 'mongodb':
+      return createMongoRateLimitStore();
+    case 'memory':
+      // One shared store per process so every route counts against the same windows
+      if (!memoryStore) memoryStore = createMemoryRateLimitStore();
+      return memoryStore;
+    default:
+      throw new Error(`Unknown RATE_LIMIT_BACKEND "${backend}"`);
+  }
+}
+
+// --- Helper: Client address as seen by the outermost trusted proxy, or the socket's peer when no proxy is trusted ---
+// Each proxy appends the address it received from, so only the last `trustedProxies` entries of
+// X-Forwarded-For are trustworthy; anything to their left was sent by the client and may be forged
+export function clientIp(req: NextRequest, trustedProxies = rateLimitConfig().trustedProxies): string {
+  const socketAddress = socketAddressesRecorded() ? req.headers.get(SOCKET_ADDRESS_HEADER)?.trim() : undefined;
+  if (trustedProxies <= 0) return socketAddress || 'unknown';
+  const hops = (req.headers.get('x-forwarded-for') ?? '').split(',').map((hop) => hop.trim()).filter(Boolean);
+  if (hops.length > 0) return hops[Math.max(0, hops.length - trustedProxies)];
+  // X-Real-IP is only set by a proxy, and there is one here
+  return req.headers.get('x-real-ip')?.trim() || socketAddress || 'unknown';
+}
+
+// --- Count a request against a client's window, e.g. "ip:<address>" or "key:<id>"; null when its limit is off ---
+// `cost` is the request's units of work; it is capped at the limit so a large request still fits an empty window
+export async function hitRateLimit(
+  client: string,
+  limit: number,
+  store: RateLimitStore = getRateLimitStore(),
+  config: RateLimitConfig = rateLimitConfig(),
+  cost = 1
+): Promise<RateLimitDecision | null> {
+  if (limit <= 0) return null;
+  const windowMs = config.windowSeconds * 1000;
+  return decide(await store.hit(client, windowMs, Math.min(Math.max(1, Math.ceil(cost)), limit)), limit, windowMs);
+}
+
+// --- Helper: The tightest of several limits: the longest wait when any rejects, otherwise the fewest remaining ---
+export function tightest(decisions: (RateLimitDecision | null)[]): RateLimitDecision | null {
+  const applied = decisions.filter((decision): decision is RateLimitDecision => decision !== null);
+  if (applied.length === 0) return null;
+  const denied = applied.filter((decision) => !decision.allowed);
+  if (denied.length > 0) return denied.reduce((a, b) => (b.retryAfter > a.retryAfter ? b : a));
+  return applied.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+}
+
+// --- Helper: Quota headers, sent on every limited route's responses ---
+export function applyRateLimitHeaders(response: Response, decision: RateLimitDecision): void {
+  response.headers.set('X-RateLimit-Limit', String(decision.limit));
+  response.headers.set('X-RateLimit-Remaining', String(decision.remaining));
+  if (!decision.allowed) response.headers.set('Retry-After', String(decision.retryAfter));
+}
+
+// --- The 429 RATE_LIMITED error for a rejected request ---
+export function rateLimitError(decision: RateLimitDecision, config: RateLimitConfig = rateLimitConfig()): SummariseError {
+  const seconds = `${decision.retryAfter} second${decision.retryAfter === 1 ? '' : 's'}`;
+  return new SummariseError('RATE_LIMITED', `Too many requests (limit ${decision.limit} per ${config.windowSeconds}s). Try again in ${seconds}.`);
+}
@@ -0,0 +1,132 @@
+// Declared schema of the summarise API (and the account and library request bodies), shared by the
+// route handlers (request validation), the browser client (response validation) and the OpenAPI document.
+// Safe to bundle for the browser.
+import { z } from 'zod';
+import { DEFAULT_LANGUAGES, isSupportedLanguage, LANGUAGES, normalizeLanguages } from './languages';
+import type { FieldError } from './errors';
+import type { ArticleMetadata } from './extractor';
+import type { SelectedSentence, SentenceOrder, SummaryAlgorithm, SummaryLength } from './summarizer';
+
+// Pasted text shorter than this is rejected; a URL must yield at least as much
+export const MIN_TEXT_LENGTH = 100;
+// Longer text (pasted, uploaded or fetched) is rejected, which keeps summarising a single request bounded
+export const MAX_TEXT_LENGTH = 200_000;
+
+const positiveInteger = z.number().int().min(1);
+
+export const SummaryLengthSchema = z
+  .discriminatedUnion('mode', [
+    z.object({ mode: z.literal('sentences'), value: positiveInteger }),
+    z.object({ mode: z.literal('words'), value: positiveInteger }),
+    z.object({ mode: z.literal('ratio'), value: z.number().gt(0).max(1) }),
+  ])
+  .meta({ description: 'Summary length in sentences, words, or as a fraction (0–1] of the original' }) satisfies z.ZodType<SummaryLength>;
+
+export const SentenceOrderSchema = z.enum(['document', 'relevance']) satisfies z.ZodType<SentenceOrder>;
+
+export const SummaryAlgorithmSchema = z.enum(['frequency', 'textrank']) satisfies z.ZodType<SummaryAlgorithm>;
+
+// Language codes or English names ("Urdu"), normalised to de-duplicated codes
+const LanguagesSchema = z
+  .array(z.string())
+  .meta({ description: `Target languages: ${Object.keys(LANGUAGES).join(', ')}; empty for an English-only summary` })
+  .transform((input, ctx) => {
+    const codes = normalizeLanguages(input);
+    const unsupported = codes.filter((code) => !isSupportedLanguage(code));
+    if (unsupported.length > 0) {
+      ctx.addIssue({ code: 'custom', message: `Unsupported target language(s): ${unsupported.join(', ')}` });
+      return z.NEVER;
+    }
+    return codes;
+  });
+
+// Summary options, without the input; also the fields sent alongside an uploaded file
+export const SummariseOptionsSchema = z.object({
+  languages: LanguagesSchema.default(DEFAULT_LANGUAGES),
+  length: SummaryLengthSchema.default({ mode: 'sentences', value: 3 }),
+  order: SentenceOrderSchema.default('document'),
+  algorithm: SummaryAlgorithmSchema.default('frequency'),
+  force: z.boolean().default(false).meta({ description: 'Skip the cache and reprocess the article' }),
+  stream: z.boolean().optional().meta({ description: 'Reply with NDJSON pipeline events instead of one JSON response' }),
+});
+
+// Body of POST /api/summarise and POST /api/jobs: article text, or a URL to fetch it from
+export const SummariseRequestSchema = SummariseOptionsSchema.extend({
+  text: z
+    .string()
+    .max(MAX_TEXT_LENGTH, `text must be at most ${MAX_TEXT_LENGTH.toLocaleString('en')} characters.`)
+    .optional()
+    .meta({ description: `Article text, ${MIN_TEXT_LENGTH} to ${MAX_TEXT_LENGTH} characters` }),
+  url: z.string().optional().meta({ description: 'http(s) URL of the article; used when no usable text is sent' }),
+}).superRefine((body, ctx) => {
+  if ((body.text?.trim().length ?? 0) >= MIN_TEXT_LENGTH || body.url?.trim()) return;
+  ctx.addIssue({
+    code: 'custom',
+    path: [body.text ? 'text' : 'url'],
+    message: body.text
+      ? `text must be at least ${MIN_TEXT_LENGTH} characters (or send a url instead).`
+      : `Provide the article text (at least ${MIN_TEXT_LENGTH} characters) or a url.`,
+  });
+});
+
+export const ArticleMetadataSchema = z.object({
+  title: z.string(),
+  canonicalUrl: z.string().nullable(),
+  author: z.string().nullable(),
+  publishedAt: z.string().nullable(),
+  siteName: z.string().nullable(),
+  language: z.string().nullable(),
+  leadImage: z.string().nullable(),
+  wordCount: z.number(),
+}) satisfies z.ZodType<ArticleMetadata>;
+
+export const SelectedSentenceSchema = z.object({
+  // Position of the sentence in the source text
+  index: z.number().int(),
+  text: z.string(),
+  score: z.number(),
+}) satisfies z.ZodType<SelectedSentence>;
+
+export const SummariseResponseSchema = z.object({
+  summary: z.string(),
+  translations: z.record(z.string(), z.string()),
+  translationErrors: z.record(z.string(), z.string()).optional(),
+  urduSummary: z.string().optional().meta({ description: 'Kept for clients that predate multi-language support' }),
+  originalLength: z.number(),
+  summaryLength: z.number(),
+  compressionRatio: z.number(),
+  algorithm: SummaryAlgorithmSchema,
+  metadata: ArticleMetadataSchema.nullable(),
+  sentences: z.array(SelectedSentenceSchema),
+  totalSentences: z.number().int(),
+  cached: z.boolean(),
+});
+
+// Body of POST /api/auth/signup and /api/auth/signin
+export const CredentialsSchema = z.object({
+  email: z.string().trim().toLowerCase().pipe(z.email('Enter a valid email address.')),
+  password: z.string().min(8, 'Use at least 8 characters.').max(200),
+});
+
+// Body of PATCH /api/library/:id; tags are trimmed, lowercased and de-duplicated
+export const LibraryUpdateSchema = z.object({
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1).max(32))
+    .max(20)
+    .transform((tags) => Array.from(new Set(tags)))
+    .optional(),
+  starred: z.boolean().optional(),
+});
+
+export type SummariseRequestBody = z.input<typeof SummariseRequestSchema>;
+export type Credentials = z.input<typeof CredentialsSchema>;
+export type LibraryUpdate = z.input<typeof LibraryUpdateSchema>;
+export type SummariseResponse = z.infer<typeof SummariseResponseSchema>;
+
+// --- Zod issues as one entry per invalid field ("length.value", "languages", ...) ---
+export function fieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    field: issue.path.length > 0 ? issue.path.join('.') : 'body',
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,63 @@
+import { fetchText } from './fetcher';
+import { extractArticle, findNextPageUrl, type ExtractedArticle } from './extractor';
+import { normalizeUrl } from './cache';
+
+const DEFAULT_MAX_PAGES = 5;
+
+export interface ScrapeOptions {
+  // Pages of a paginated article to read, the first included
+  maxPages?: number;
+  // Called as each page is downloaded and then extracted
+  onProgress?: (stage: 'fetching' | 'extracting', page: number) => void;
+}
+
+export function scraperMaxPages(env: NodeJS.ProcessEnv = process.env): number {
+  const pages = Number(env.SCRAPER_MAX_PAGES);
+  return Number.isInteger(pages) && pages > 0 ? pages : DEFAULT_MAX_PAGES;
+}
+
+// --- Helper: Download a page's HTML (throws FetchError) ---
+export async function fetchHtml(url: string): Promise<string> {
+  return fetchText(url);
+}
+
+// --- Helper: Drop paragraphs that repeat across pages (bylines, newsletter boxes, disclaimers) ---
+function removeRepeatedBlocks(pages: string[][]): string[][] {
+  const pageCount = new Map<string, number>();
+  pages.forEach((blocks) => new Set(blocks).forEach((block) => pageCount.set(block, (pageCount.get(block) ?? 0) + 1)));
+  return pages.map((blocks) => blocks.filter((block) => pageCount.get(block) === 1));
+}
+
+// --- Helper: Scrape blog content, following "next page" links of paginated articles ---
+export async function scrapeBlogContent(url: string, options: ScrapeOptions = {}): Promise<ExtractedArticle> {
+  const { maxPages = scraperMaxPages(), onProgress = () => {} } = options;
+
+  onProgress('fetching', 1);
+  const html = await fetchHtml(url);
+  onProgress('extracting', 1);
+  const first = extractArticle(html, url);
+
+  const pages = [first.text.split('\n\n').filter(Boolean)];
+  const visited = new Set([normalizeUrl(url)]);
+  let next = findNextPageUrl(html, url);
+  while (next && pages.length < maxPages && !visited.has(normalizeUrl(next))) {
+    visited.add(normalizeUrl(next));
+    const page = pages.length + 1;
+    let pageHtml: string;
+    try {
+      onProgress('fetching', page);
+      pageHtml = await fetchHtml(next);
+    } catch (error) {
+      // A later page failing keeps the pages read so far
+      console.error(`Pagination fetch error (${next}):`, error);
+      break;
+    }
+    onProgress('extracting', page);
+    pages.push(extractArticle(pageHtml, next).text.split('\n\n').filter(Boolean));
+    next = findNextPageUrl(pageHtml, next);
+  }
+
+  if (pages.length === 1) return first;
+  const text = removeRepeatedBlocks(pages).flat().join('\n\n');
+  return { ...first, text, wordCount: text.split(/\s+/).filter(Boolean).length };
+}
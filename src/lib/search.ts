@@ -0,0 +1,187 @@
+import { removeStopwords } from 'stopword';
+import type { Document } from 'mongodb';
+import { getDb } from './mongodb';
+
+// One processed article as seen by the search index
+export interface SearchDocument {
+  // Content hash of the article text
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  text: string;
+  // Stored summary to reopen when the hit is selected
+  summaryId: string | null;
+  createdAt: Date;
+}
+
+export interface SearchHit {
+  id: string;
+  url: string;
+  title: string;
+  summaryId: string | null;
+  score: number;
+  // Text around the first match, with [start, end) offsets of every matched term
+  snippet: string;
+  highlights: [number, number][];
+}
+
+// Reply to GET /api/search
+export interface SearchResponse {
+  query: string;
+  hits: SearchHit[];
+}
+
+export interface SearchIndex {
+  name: string;
+  index(doc: SearchDocument): Promise<void>;
+  search(query: string, limit?: number): Promise<SearchHit[]>;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+const SNIPPET_RADIUS = 90;
+// Relative importance of each field, shared by the MongoDB text index and the in-memory ranking
+const FIELD_WEIGHTS = { title: 10, summary: 5, text: 1 } as const;
+
+// --- Helper: Query terms (lowercase, stop words removed) ---
+export function searchTerms(query: string): string[] {
+  const words = query.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').split(/\s+/).filter(Boolean);
+  return Array.from(new Set(removeStopwords(words)));
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// --- Helper: Snippet around the first matching term, with highlight offsets ---
+export function buildSnippet(text: string, terms: string[], radius = SNIPPET_RADIUS): Pick<SearchHit, 'snippet' | 'highlights'> {
+  if (terms.length === 0) return { snippet: text.slice(0, radius * 2), highlights: [] };
+  const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\w*`, 'gi');
+  const first = pattern.exec(text);
+  if (!first) return { snippet: text.slice(0, radius * 2).trim(), highlights: [] };
+
+  let start = Math.max(0, first.index - radius);
+  let end = Math.min(text.length, first.index + first[0].length + radius);
+  // Snap to word boundaries so the snippet doesn't open or close mid-word
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first.index + first[0].length) end = space;
+  }
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const body = text.slice(start, end);
+
+  const highlights: [number, number][] = [];
+  const inner = new RegExp(pattern.source, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = inner.exec(body)) !== null) {
+    highlights.push([prefix.length + match.index, prefix.length + match.index + match[0].length]);
+  }
+  return { snippet: `${prefix}${body}${suffix}`, highlights };
+}
+
+// --- Helper: Snippet from the summary when it matches, otherwise from the article text ---
+function snippetFor(doc: Pick<SearchDocument, 'summary' | 'text'>, terms: string[]) {
+  const fromSummary = buildSnippet(doc.summary, terms);
+  return fromSummary.highlights.length > 0 ? fromSummary : buildSnippet(doc.text, terms);
+}
+
+let textIndexReady: Promise<unknown> | null = null;
+
+// --- Index: MongoDB text index over the blogs collection ---
+export function createMongoSearchIndex(): SearchIndex {
+  const blogs = async () => {
+    const collection = (await getDb()).collection('blogs');
+    if (!textIndexReady) {
+      textIndexReady = collection
+        .createIndex(
+          { 'metadata.title': 'text', summary: 'text', text: 'text' },
+          { name: 'blogs_text', weights: { 'metadata.title': FIELD_WEIGHTS.title, summary: FIELD_WEIGHTS.summary, text: FIELD_WEIGHTS.text } }
+        )
+        .catch((error) => {
+          textIndexReady = null;
+          throw error;
+        });
+    }
+    await textIndexReady;
+    return collection;
+  };
+
+  return {
+    name: 'mongodb',
+    // Blogs are written by the summarise route; only the searchable summary fields are added here
+    async index(doc: SearchDocument): Promise<void> {
+      await (await blogs()).updateOne(
+        { contentHash: doc.id },
+        { $set: { summary: doc.summary, summaryId: doc.summaryId } }
+      );
+    },
+    async search(query: string, limit = DEFAULT_SEARCH_LIMIT): Promise<SearchHit[]> {
+      const terms = searchTerms(query);
+      if (terms.length === 0) return [];
+      const docs = await (await blogs())
+        .find({ $text: { $search: query } }, { projection: { score: { $meta: 'textScore' }, url: 1, text: 1, summary: 1, summaryId: 1, contentHash: 1, 'metadata.title': 1 } })
+        .sort({ score: { $meta: 'textScore' } })
+        .limit(limit)
+        .toArray();
+      return docs.map((doc: Document) => ({
+        id: doc.contentHash ?? String(doc._id),
+        url: doc.url || '',
+        title: doc.metadata?.title || '',
+        summaryId: doc.summaryId ?? null,
+        score: doc.score,
+        ...snippetFor({ summary: doc.summary || '', text: doc.text || '' }, terms),
+      }));
+    },
+  };
+}
+
+// --- Index: in-memory term-frequency ranking, for tests and local runs without MongoDB ---
+export function createMemorySearchIndex(initial: SearchDocument[] = []): SearchIndex {
+  const docs = new Map<string, SearchDocument>(initial.map((doc) => [doc.id, doc]));
+  const countTerm = (field: string, term: string) =>
+    (field.toLowerCase().match(new RegExp(`\\b${escapeRegExp(term)}\\w*`, 'g')) || []).length;
+
+  return {
+    name: 'memory',
+    async index(doc: SearchDocument): Promise<void> {
+      docs.set(doc.id, doc);
+    },
+    async search(query: string, limit = DEFAULT_SEARCH_LIMIT): Promise<SearchHit[]> {
+      const terms = searchTerms(query);
+      if (terms.length === 0) return [];
+      const hits: SearchHit[] = [];
+      docs.forEach((doc) => {
+        const score = terms.reduce(
+          (sum, term) =>
+            sum +
+            FIELD_WEIGHTS.title * countTerm(doc.title, term) +
+            FIELD_WEIGHTS.summary * countTerm(doc.summary, term) +
+            FIELD_WEIGHTS.text * countTerm(doc.text, term),
+          0
+        );
+        if (score > 0) {
+          hits.push({ id: doc.id, url: doc.url, title: doc.title, summaryId: doc.summaryId, score, ...snippetFor(doc, terms) });
+        }
+      });
+      return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+}
+
+let memoryIndex: SearchIndex | null = null;
+
+// Selects the search backend from environment config:
+//   SEARCH_BACKEND = mongodb (default) | memory
+export function getSearchIndex(env: NodeJS.ProcessEnv = process.env): SearchIndex {
+  const backend = (env.SEARCH_BACKEND || 'mongodb').toLowerCase();
+  switch (backend) {
+    case 'mongodb':
+      return createMongoSearchIndex();
+    case 'memory':
+      // One shared index per process so documents indexed by one request are searchable by the next
+      if (!memoryIndex) memoryIndex = createMemorySearchIndex();
+      return memoryIndex;
+    default:
+      throw new Error(`Unknown SEARCH_BACKEND "${backend}"`);
+  }
+}
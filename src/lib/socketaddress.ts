@@ -0,0 +1,26 @@
+import { Server, type IncomingMessage } from 'http';
+
+// Request header carrying the TCP peer's address, written by this process for every request it accepts
+export const SOCKET_ADDRESS_HEADER = 'x-socket-address';
+
+const globalForSocket = globalThis as unknown as { _socketAddressesRecorded?: boolean };
+
+// --- Whether this process stamps requests with their socket address; the header can't be trusted otherwise ---
+export const socketAddressesRecorded = () => globalForSocket._socketAddressesRecorded === true;
+
+// --- Stamp each incoming request with its socket's remote address, replacing whatever the client sent ---
+// Route handlers only see headers (Next.js 15 has no request.ip), so this is how they learn who connected.
+// Called once from src/instrumentation.ts when the Node.js server starts.
+export function recordSocketAddresses(): void {
+  if (socketAddressesRecorded()) return;
+  const emit = Server.prototype.emit;
+  Server.prototype.emit = function (this: Server, event: string | symbol, ...args: unknown[]): boolean {
+    if (event === 'request') {
+      const req = args[0] as IncomingMessage;
+      // IPv4 clients of a dual-stack socket show up as ::ffff:1.2.3.4
+      req.headers[SOCKET_ADDRESS_HEADER] = (req.socket.remoteAddress ?? '').replace(/^::ffff:/, '');
+    }
+    return emit.apply(this, [event, ...args] as Parameters<typeof emit>);
+  } as typeof emit;
+  globalForSocket._socketAddressesRecorded = true;
+}
@@ -0,0 +1,127 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { SummariseError } from './errors';
+
+export type BlockedReason = 'invalid-url' | 'scheme' | 'credentials' | 'denied-domain' | 'not-allowed-domain' | 'private-address' | 'unresolvable';
+
+// A URL the server refuses to fetch on a user's behalf: INVALID_URL when it can't be
+// parsed or resolved, BLOCKED_URL (403, or 400 for a non-http scheme) when policy forbids it
+export class BlockedUrlError extends SummariseError {
+  reason: BlockedReason;
+  url: string;
+
+  constructor(reason: BlockedReason, url: string, message: string) {
+    if (reason === 'invalid-url' || reason === 'unresolvable') super('INVALID_URL', message);
+    else super('BLOCKED_URL', message, reason === 'scheme' ? 400 : 403);
+    this.name = 'BlockedUrlError';
+    this.reason = reason;
+    this.url = url;
+  }
+}
+
+export interface UrlPolicy {
+  // When set, only these domains (and their subdomains) may be fetched
+  allowDomains: string[];
+  denyDomains: string[];
+  // Local development only: skip the private address checks
+  allowPrivate: boolean;
+}
+
+const domainList = (value: string | undefined) =>
+  (value || '').split(',').map((d) => d.trim().toLowerCase().replace(/^\*?\./, '')).filter(Boolean);
+
+// URL policy from environment config:
+//   URL_ALLOWLIST / URL_DENYLIST = comma-separated domains, ALLOW_PRIVATE_URLS = true
+export function urlPolicyFromEnv(env: NodeJS.ProcessEnv = process.env): UrlPolicy {
+  return {
+    allowDomains: domainList(env.URL_ALLOWLIST),
+    denyDomains: domainList(env.URL_DENYLIST),
+    allowPrivate: env.ALLOW_PRIVATE_URLS === 'true',
+  };
+}
+
+// Loopback, private, link-local (cloud metadata lives at 169.254.169.254), CGNAT, multicast and reserved ranges
+const BLOCKED_RANGES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([network, prefix]) => BLOCKED_RANGES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8], ['2001:db8::', 32], ['64:ff9b::', 96],
+].forEach(([network, prefix]) => BLOCKED_RANGES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+// --- Whether an IP address is outside the public internet ---
+export function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_RANGES.check(mapped[1], 'ipv4');
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+const matchesDomain = (host: string, domains: string[]) =>
+  domains.some((domain) => host === domain || host.endsWith(`.${domain}`));
+
+// --- Check a URL before fetching it: scheme, credentials, domain lists and every resolved address ---
+export async function assertPublicUrl(input: string, policy: UrlPolicy = urlPolicyFromEnv()): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new BlockedUrlError('invalid-url', input, 'Please provide a valid URL.');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new BlockedUrlError('scheme', input, `Only http and https URLs can be summarised (got ${url.protocol.replace(/:$/, '')}).`);
+  }
+  if (url.username || url.password) {
+    throw new BlockedUrlError('credentials', input, 'URLs with embedded credentials are not allowed.');
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (matchesDomain(host, policy.denyDomains)) {
+    throw new BlockedUrlError('denied-domain', input, `Fetching from ${host} is not allowed.`);
+  }
+  if (policy.allowDomains.length > 0 && !matchesDomain(host, policy.allowDomains)) {
+    throw new BlockedUrlError('not-allowed-domain', input, `${host} is not on the list of allowed domains.`);
+  }
+  if (policy.allowPrivate) return url;
+
+  let addresses: string[];
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      throw new BlockedUrlError('unresolvable', input, `Could not resolve ${host}.`);
+    }
+  }
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new BlockedUrlError('private-address', input, 'URLs pointing to private or internal network addresses are not allowed.');
+  }
+  return url;
+}
+
+// --- DNS lookup for outgoing sockets that refuses private addresses ---
+// Checked again at connect time so a hostname can't resolve to a public address for
+// assertPublicUrl and to an internal one for the actual request (DNS rebinding).
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '');
+    if (!urlPolicyFromEnv().allowPrivate && addresses.some((entry) => isBlockedAddress(entry.address))) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EBLOCKED' }), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+// Agent for node-fetch's `agent` option
+export const guardedAgent = (url: URL) => (url.protocol === 'http:' ? httpAgent : httpsAgent);
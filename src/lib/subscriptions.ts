@@ -0,0 +1,330 @@
+import { MongoServerError, ObjectId, type Document, type Filter, type WithId } from 'mongodb';
+import { getDb } from './mongodb';
+import { fetchText, FEED_CONTENT_TYPES, HTML_CONTENT_TYPES } from './fetcher';
+import { discoverFeedUrl, parseFeed, type ParsedFeed } from './feed';
+import { DEFAULT_BATCH_CONCURRENCY, mapWithConcurrency, summariseItem } from './batch';
+import { buildOverview, fetchFeedXml, DEFAULT_DIGEST_ENTRIES, MAX_DIGEST_ENTRIES, type DigestOverview } from './digest';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './history';
+import { parseSummariseRequest, SummariseError, type SummariseRequest } from './pipeline';
+
+// Links remembered per subscription to tell new posts from ones already summarised
+const SEEN_LINKS_LIMIT = 200;
+// Longest a scheduled run may take; matches the cron route's maxDuration
+export const CRON_MAX_RUN_SECONDS = 300;
+// No new post is started this close to the limit, leaving time for the ones in flight and their saves
+const CRON_STOP_MARGIN_SECONDS = 60;
+// Subscriptions run side by side, each summarising DEFAULT_BATCH_CONCURRENCY posts at a time
+const SUBSCRIPTION_CONCURRENCY = 2;
+
+export type SubscriptionOptions = Pick<SummariseRequest, 'languages' | 'length' | 'order' | 'algorithm'>;
+
+export interface Subscription {
+  id: string;
+  // URL as submitted: the feed itself or a blog page that advertises one
+  url: string;
+  feedUrl: string;
+  title: string;
+  options: SubscriptionOptions;
+  lastRunAt: string | null;
+  createdAt: string;
+}
+
+export interface DigestPost {
+  url: string;
+  title: string;
+  publishedAt: string | null;
+  summary: string;
+  translations: Record<string, string>;
+}
+
+export interface DigestFailure {
+  url: string;
+  title: string;
+  error: string;
+}
+
+// One digest per subscription per day; later runs that day add their posts to it
+export interface StoredDigest {
+  id: string;
+  subscriptionId: string;
+  title: string;
+  // UTC day, YYYY-MM-DD
+  date: string;
+  overview: DigestOverview | null;
+  posts: DigestPost[];
+  failures: DigestFailure[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DigestListFilter {
+  subscriptionId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface DigestPage {
+  items: StoredDigest[];
+  page: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+}
+
+export interface SubscriptionRunResult {
+  subscriptionId: string;
+  feedUrl: string;
+  newPosts: number;
+  failed: number;
+  // New posts left for the next run because the time limit was near
+  deferred: number;
+  digestId: string | null;
+  error?: string;
+}
+
+export interface CronRunResult {
+  runs: SubscriptionRunResult[];
+  // Subscriptions not started before the time limit; they run first next time
+  deferred: number;
+}
+
+const toIso = (value: Date | string) => new Date(value).toISOString();
+
+function toSubscription(doc: Document): Subscription {
+  return {
+    id: String(doc._id),
+    url: doc.url,
+    feedUrl: doc.feedUrl,
+    title: doc.title || '',
+    options: doc.options,
+    lastRunAt: doc.lastRunAt ? toIso(doc.lastRunAt) : null,
+    createdAt: toIso(doc.createdAt),
+  };
+}
+
+function toStoredDigest(doc: Document): StoredDigest {
+  return {
+    id: String(doc._id),
+    subscriptionId: doc.subscriptionId,
+    title: doc.title || '',
+    date: doc.date,
+    overview: doc.overview ?? null,
+    posts: doc.posts ?? [],
+    failures: doc.failures ?? [],
+    createdAt: toIso(doc.createdAt),
+    updatedAt: toIso(doc.updatedAt),
+  };
+}
+
+let indexesReady: Promise<unknown> | null = null;
+
+async function collections() {
+  const db = await getDb();
+  const subscriptions = db.collection('subscriptions');
+  const digests = db.collection('digests');
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      subscriptions.createIndex({ feedUrl: 1 }, { unique: true }),
+      digests.createIndex({ subscriptionId: 1, date: 1 }, { unique: true }),
+    ]).catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+  return { subscriptions, digests };
+}
+
+// --- Helper: Fetch and parse a feed (NOT_A_FEED when the URL doesn't serve one) ---
+async function loadFeed(feedUrl: string): Promise<ParsedFeed> {
+  const xml = await fetchFeedXml(feedUrl);
+  try {
+    return parseFeed(xml, feedUrl);
+  } catch {
+    throw new SummariseError('NOT_A_FEED', 'The URL did not return an RSS or Atom feed.');
+  }
+}
+
+// --- Helper: Feed behind a URL, following a blog page's <link rel="alternate"> when needed ---
+async function resolveFeed(url: string): Promise<{ feedUrl: string; feed: ParsedFeed }> {
+  const body = await fetchText(url, { contentTypes: [...FEED_CONTENT_TYPES, ...HTML_CONTENT_TYPES] });
+  try {
+    return { feedUrl: url, feed: parseFeed(body, url) };
+  } catch {
+    const feedUrl = discoverFeedUrl(body, url);
+    if (!feedUrl) {
+      throw new SummariseError('NOT_A_FEED', 'No RSS or Atom feed found at this URL.');
+    }
+    return { feedUrl, feed: await loadFeed(feedUrl) };
+  }
+}
+
+// --- Register a feed or blog URL with the summary options its digests use (CONFLICT when the feed is already subscribed) ---
+export async function createSubscription(body: Record<string, unknown>): Promise<Subscription> {
+  const { url, languages, length, order, algorithm } = parseSummariseRequest(body);
+  if (!url) {
+    throw new SummariseError('INVALID_REQUEST', 'Please provide the URL of a blog or its RSS/Atom feed.');
+  }
+  const { feedUrl, feed } = await resolveFeed(url);
+  const { subscriptions } = await collections();
+  const doc = {
+    url,
+    feedUrl,
+    title: feed.title,
+    options: { languages, length, order, algorithm },
+    seenLinks: [] as string[],
+    lastRunAt: null,
+    createdAt: new Date(),
+  };
+  // The unique feedUrl index decides between concurrent requests for the same feed
+  try {
+    const { insertedId } = await subscriptions.insertOne(doc);
+    return toSubscription({ ...doc, _id: insertedId });
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      throw new SummariseError('CONFLICT', 'Already subscribed to this feed.');
+    }
+    throw error;
+  }
+}
+
+export async function listSubscriptions(): Promise<Subscription[]> {
+  const { subscriptions } = await collections();
+  const docs = await subscriptions.find({}).sort({ createdAt: -1 }).toArray();
+  return docs.map(toSubscription);
+}
+
+// Stored digests are kept when their subscription is removed
+export async function deleteSubscription(id: string): Promise<boolean> {
+  if (!ObjectId.isValid(id)) return false;
+  const { subscriptions } = await collections();
+  const { deletedCount } = await subscriptions.deleteOne({ _id: new ObjectId(id) });
+  return deletedCount > 0;
+}
+
+// --- List stored digests, newest day first ---
+export async function listDigests(filter: DigestListFilter = {}): Promise<DigestPage> {
+  const page = Math.max(1, Math.floor(filter.page ?? 1));
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(filter.limit ?? DEFAULT_PAGE_SIZE)));
+  const query: Filter<Document> = {};
+  if (filter.subscriptionId) query.subscriptionId = filter.subscriptionId;
+
+  const { digests } = await collections();
+  const [docs, total] = await Promise.all([
+    digests.find(query).sort({ date: -1, updatedAt: -1 }).skip((page - 1) * limit).limit(limit).toArray(),
+    digests.countDocuments(query),
+  ]);
+  return {
+    items: docs.map(toStoredDigest),
+    page,
+    limit,
+    total,
+    hasMore: page * limit < total,
+  };
+}
+
+// --- Fetch one stored digest; null when the id is unknown or malformed ---
+export async function getDigest(id: string): Promise<StoredDigest | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const { digests } = await collections();
+  const doc = await digests.findOne({ _id: new ObjectId(id) });
+  return doc ? toStoredDigest(doc) : null;
+}
+
+// --- Summarise a subscription's posts published since the last run into today's digest ---
+// Posts not started by `deadline` (ms since epoch) stay unseen, so the next run picks them up
+export async function runSubscription(doc: WithId<Document>, now = new Date(), deadline = Infinity): Promise<SubscriptionRunResult> {
+  const subscriptionId = String(doc._id);
+  const options: SubscriptionOptions = doc.options;
+  const seenLinks: string[] = doc.seenLinks ?? [];
+  const feed = await loadFeed(doc.feedUrl);
+
+  // The first run only takes the latest few posts instead of the whole feed history
+  const seen = new Set(seenLinks);
+  const fresh = feed.entries
+    .filter((entry) => entry.link && !seen.has(entry.link))
+    .slice(0, seenLinks.length > 0 ? MAX_DIGEST_ENTRIES : DEFAULT_DIGEST_ENTRIES);
+  const results = await mapWithConcurrency(fresh, DEFAULT_BATCH_CONCURRENCY, async (entry, index) =>
+    Date.now() < deadline ? summariseItem(index, { ...options, url: entry.link }) : null
+  );
+
+  const posts: DigestPost[] = [];
+  const failures: DigestFailure[] = [];
+  results.forEach((item, i) => {
+    const entry = fresh[i];
+    if (!item) return;
+    if (item.ok) {
+      posts.push({
+        url: entry.link,
+        title: entry.title || item.result.metadata?.title || '',
+        publishedAt: entry.publishedAt,
+        summary: item.result.summary,
+        translations: item.result.translations,
+      });
+    } else {
+      failures.push({ url: entry.link, title: entry.title, error: item.error });
+    }
+  });
+
+  const { subscriptions, digests } = await collections();
+  let digestId: string | null = null;
+  if (posts.length + failures.length > 0) {
+    const date = now.toISOString().slice(0, 10);
+    const existing = await digests.findOne({ subscriptionId, date });
+    const dayPosts: DigestPost[] = [...(existing?.posts ?? []), ...posts];
+    const overview = await buildOverview(dayPosts.map((post) => post.summary), options);
+    await digests.updateOne(
+      { subscriptionId, date },
+      {
+        $set: { title: feed.title || doc.title, overview, posts: dayPosts, failures: [...(existing?.failures ?? []), ...failures], updatedAt: now },
+        $setOnInsert: { subscriptionId, date, createdAt: now },
+      },
+      { upsert: true }
+    );
+    const saved = await digests.findOne({ subscriptionId, date }, { projection: { _id: 1 } });
+    digestId = saved ? String(saved._id) : null;
+  }
+
+  // Server-side failures are retried on the next run; anything else won't succeed later either
+  const done = results.flatMap((item, i) => (item && (item.ok || item.status < 500) ? [fresh[i].link] : []));
+  await subscriptions.updateOne(
+    { _id: doc._id },
+    { $set: { seenLinks: [...done, ...seenLinks].slice(0, SEEN_LINKS_LIMIT), lastRunAt: now, title: feed.title || doc.title } }
+  );
+
+  return {
+    subscriptionId,
+    feedUrl: doc.feedUrl,
+    newPosts: posts.length,
+    failed: failures.length,
+    deferred: results.filter((item) => !item).length,
+    digestId,
+  };
+}
+
+// --- Scheduled entry point: run every subscription, a few at a time, least recently run first ---
+// Each subscription saves its digest as soon as it finishes; work stops starting before the cron's time limit
+export async function runAllSubscriptions(now = new Date()): Promise<CronRunResult> {
+  const deadline = Date.now() + (CRON_MAX_RUN_SECONDS - CRON_STOP_MARGIN_SECONDS) * 1000;
+  const { subscriptions } = await collections();
+  const docs = await subscriptions.find({}).sort({ lastRunAt: 1 }).toArray();
+  const runs = await mapWithConcurrency(docs, SUBSCRIPTION_CONCURRENCY, async (doc): Promise<SubscriptionRunResult | null> => {
+    if (Date.now() >= deadline) return null;
+    try {
+      return await runSubscription(doc, now, deadline);
+    } catch (error) {
+      console.error(`Subscription ${doc._id} run error:`, error);
+      return {
+        subscriptionId: String(doc._id),
+        feedUrl: doc.feedUrl,
+        newPosts: 0,
+        failed: 0,
+        deferred: 0,
+        digestId: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+  const started = runs.filter((run): run is SubscriptionRunResult => run !== null);
+  return { runs: started, deferred: docs.length - started.length };
+}
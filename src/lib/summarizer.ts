@@ -0,0 +1,179 @@
+import { removeStopwords } from 'stopword';
+
+// How long the extractive summary should be: a fixed number of sentences,
+// a target word count, or a fraction (0–1) of the original word count.
+export type SummaryLength =
+  | { mode: 'sentences'; value: number }
+  | { mode: 'words'; value: number }
+  | { mode: 'ratio'; value: number };
+
+export const DEFAULT_SUMMARY_LENGTH: SummaryLength = { mode: 'sentences', value: 3 };
+
+// "document" keeps selected sentences in their original order; "relevance" puts the highest-scoring first.
+export type SentenceOrder = 'document' | 'relevance';
+
+// "frequency" sums word frequencies per sentence; "textrank" ranks sentences on a
+// similarity graph and applies an MMR redundancy penalty when selecting them.
+export type SummaryAlgorithm = 'frequency' | 'textrank';
+
+export interface SummarizeOptions {
+  length?: SummaryLength;
+  order?: SentenceOrder;
+  algorithm?: SummaryAlgorithm;
+}
+
+export interface SelectedSentence {
+  // Position of the sentence in the source text (0-based)
+  index: number;
+  text: string;
+  score: number;
+}
+
+export interface SummaryResult {
+  summary: string;
+  sentences: SelectedSentence[];
+  totalSentences: number;
+}
+
+const countWords = (s: string) => s.split(/\s+/).filter(Boolean).length;
+
+const contentWords = (s: string) =>
+  removeStopwords(s.toLowerCase().replace(/[^a-zA-Z\s]/g, '').split(/\s+/));
+
+// PageRank damping factor and iteration limits for TextRank
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-4;
+// MMR trade-off between relevance (1) and novelty (0)
+const MMR_LAMBDA = 0.5;
+// TextRank compares every pair of sentences, so only this many (the best by word frequency per content word) go into the graph
+export const MAX_TEXTRANK_SENTENCES = 200;
+
+// --- Helper: Frequency scores (sum of document word frequencies per sentence) ---
+function frequencyScores(text: string, sentences: string[]): number[] {
+  const freq: Record<string, number> = {};
+  contentWords(text).forEach((w) => (freq[w] = (freq[w] || 0) + 1));
+  return sentences.map((s) => contentWords(s).reduce((sum, w) => sum + (freq[w] || 0), 0));
+}
+
+// --- Helper: TextRank edge weight ---
+// Word overlap normalised by log sentence lengths, so long sentences don't dominate.
+function overlapSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let overlap = 0;
+  a.forEach((w) => { if (b.has(w)) overlap++; });
+  return overlap / (Math.log(1 + a.size) + Math.log(1 + b.size));
+}
+
+// --- Helper: Cosine similarity of word sets, used for the MMR penalty ---
+function cosineSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let overlap = 0;
+  a.forEach((w) => { if (b.has(w)) overlap++; });
+  return overlap / Math.sqrt(a.size * b.size);
+}
+
+// --- Helper: TextRank scores (PageRank over the sentence-similarity graph) ---
+function textRankScores(wordSets: Set<string>[]): number[] {
+  const n = wordSets.length;
+  const weights = wordSets.map((a, i) => wordSets.map((b, j) => (i === j ? 0 : overlapSimilarity(a, b))));
+  const outSums = weights.map((row) => row.reduce((sum, w) => sum + w, 0));
+  let scores: number[] = new Array(n).fill(1 / n);
+  for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+    const next = scores.map((_, i) => {
+      let rank = 0;
+      for (let j = 0; j < n; j++) {
+        if (weights[j][i] > 0 && outSums[j] > 0) rank += (weights[j][i] / outSums[j]) * scores[j];
+      }
+      return (1 - DAMPING) / n + DAMPING * rank;
+    });
+    const delta = next.reduce((sum, v, i) => sum + Math.abs(v - scores[i]), 0);
+    scores = next;
+    if (delta < CONVERGENCE) break;
+  }
+  return scores;
+}
+
+// --- Helper: Maximal Marginal Relevance ordering ---
+// Yields sentences best-first, penalising those similar to ones already yielded.
+function* mmrOrder(scored: SelectedSentence[], wordSets: Set<string>[]): Generator<SelectedSentence> {
+  const maxScore = scored.reduce((max, s) => Math.max(max, s.score), 0) || 1;
+  const remaining = [...scored];
+  const picked: SelectedSentence[] = [];
+  while (remaining.length > 0) {
+    let bestIdx = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, i) => {
+      const redundancy = picked.reduce(
+        (max, p) => Math.max(max, cosineSimilarity(wordSets[candidate.index], wordSets[p.index])),
+        0
+      );
+      const value = MMR_LAMBDA * (candidate.score / maxScore) - (1 - MMR_LAMBDA) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIdx = i;
+      }
+    });
+    const [best] = remaining.splice(bestIdx, 1);
+    picked.push(best);
+    yield best;
+  }
+}
+
+// --- Helper: Summarize using extractive logic ---
+export function summarizeText(
+  text: string,
+  { length = DEFAULT_SUMMARY_LENGTH, order = 'document', algorithm = 'frequency' }: SummarizeOptions = {}
+): SummaryResult {
+  try {
+    const sentences = text.match(/[^.!?\n]+[.!?\n]+/g) || [text];
+    let ranked: Iterable<SelectedSentence>;
+    if (algorithm === 'textrank') {
+      const wordSets = sentences.map((s) => new Set(contentWords(s).filter(Boolean)));
+      // Per content word, so the graph isn't filled with the longest sentences
+      const frequency = frequencyScores(text, sentences).map((score, index) => score / Math.max(1, wordSets[index].size));
+      const byFrequency = sentences.map((_, index) => index).sort((a, b) => frequency[b] - frequency[a]);
+      // Graph candidates stay in document order; the rest follow by frequency if a long summary needs them
+      const candidates = byFrequency.slice(0, MAX_TEXTRANK_SENTENCES).sort((a, b) => a - b);
+      const scores = textRankScores(candidates.map((index) => wordSets[index]));
+      const scored = candidates.map((index, i) => ({ index, text: sentences[index].trim(), score: Number(scores[i].toFixed(6)) }));
+      const rest = byFrequency.slice(MAX_TEXTRANK_SENTENCES).map((index) => ({ index, text: sentences[index].trim(), score: 0 }));
+      ranked = (function* () {
+        yield* mmrOrder(scored, wordSets);
+        yield* rest;
+      })();
+    } else {
+      const scores = frequencyScores(text, sentences);
+      const scored = sentences.map((s, index) => ({ index, text: s.trim(), score: scores[index] }));
+      ranked = scored.sort((a, b) => b.score - a.score);
+    }
+
+    const top: SelectedSentence[] = [];
+    if (length.mode === 'sentences') {
+      for (const sentence of ranked) {
+        if (top.length >= length.value) break;
+        top.push(sentence);
+      }
+    } else {
+      const targetWords = length.mode === 'words'
+        ? length.value
+        : Math.max(1, Math.round(countWords(text) * length.value));
+      let wordTotal = 0;
+      for (const sentence of ranked) {
+        if (wordTotal >= targetWords) break;
+        top.push(sentence);
+        wordTotal += countWords(sentence.text);
+      }
+    }
+    if (order === 'document') {
+      top.sort((a, b) => a.index - b.index);
+    }
+    return {
+      summary: top.map((s) => s.text).join(' '),
+      sentences: top,
+      totalSentences: sentences.length,
+    };
+  } catch (error) {
+    throw new Error(`Failed to summarize text: ${error}`);
+  }
+}
@@ -0,0 +1,79 @@
+import phraseDictionary from '../../../data/phrases';
+import wordDictionary from '../../../data/words';
+import type { TranslationProvider } from './types';
+
+export interface Dictionary {
+  phrases: Record<string, string>;
+  words: Record<string, string>;
+}
+
+// Only Urdu ships with dictionaries; other languages need their own data files.
+export const DEFAULT_DICTIONARIES: Record<string, Dictionary> = {
+  ur: { phrases: phraseDictionary, words: wordDictionary },
+};
+
+// Own keys only, so words like "constructor" don't match Object.prototype members
+const lookup = (dictionary: Record<string, string>, key: string): string | undefined =>
+  Object.hasOwn(dictionary, key) ? dictionary[key] : undefined;
+
+// --- Helper: Dictionary translation (phrases first, then words) ---
+export function translateWithDictionary(
+  text: string,
+  phrases: Record<string, string> = phraseDictionary,
+  words: Record<string, string> = wordDictionary
+): string {
+  // Longest-match-first so "in this article" wins over "in" + "this" + "article".
+  const maxPhraseWords = Object.keys(phrases).reduce((max, p) => Math.max(max, p.split(' ').length), 1);
+
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => {
+      const tokens = sentence.split(/\s+/).filter(Boolean);
+      const out: string[] = [];
+      let i = 0;
+      while (i < tokens.length) {
+        let matched = false;
+        for (let len = Math.min(maxPhraseWords, tokens.length - i); len >= 2; len--) {
+          const candidate = tokens.slice(i, i + len).join(' ').toLowerCase().replace(/[^a-z\s']/g, '');
+          const phrase = lookup(phrases, candidate);
+          if (phrase) {
+            out.push(phrase + trailingPunctuation(tokens[i + len - 1]));
+            i += len;
+            matched = true;
+            break;
+          }
+        }
+        if (matched) continue;
+        const token = tokens[i];
+        const key = token.toLowerCase().replace(/[^a-z']/g, '');
+        const translated = lookup(phrases, key) || lookup(words, key);
+        // Fallback: leave untranslated words as-is
+        out.push(translated ? translated + trailingPunctuation(token) : token);
+        i++;
+      }
+      return out.join(' ');
+    })
+    .join(' ');
+}
+
+function trailingPunctuation(token: string): string {
+  const match = token.match(/[.!?,;:]+$/);
+  if (!match) return '';
+  return match[0].replace(/\./g, '۔').replace(/\?/g, '؟').replace(/,/g, '،').replace(/;/g, '؛');
+}
+
+// --- Provider: offline dictionary (no network) ---
+export function createDictionaryProvider(
+  dictionaries: Record<string, Dictionary> = DEFAULT_DICTIONARIES
+): TranslationProvider {
+  return {
+    name: 'dictionary',
+    async translate(text: string, targetLanguage: string): Promise<string> {
+      const dictionary = Object.hasOwn(dictionaries, targetLanguage) ? dictionaries[targetLanguage] : undefined;
+      if (!dictionary) {
+        throw new Error(`No dictionary available for language "${targetLanguage}"`);
+      }
+      return translateWithDictionary(text, dictionary.phrases, dictionary.words);
+    },
+  };
+}
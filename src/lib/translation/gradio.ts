@@ -0,0 +1,28 @@
+import { Client as GradioClient } from '@gradio/client';
+import type { TranslationProvider } from './types';
+
+export const DEFAULT_GRADIO_SPACE = 'NOOBBoy69/English_Urdu_translation';
+
+// --- Provider: Hugging Face Gradio Spaces ---
+// Each Space translates English into a single language, so spaces are keyed by language code.
+export function createGradioProvider(
+  spaces: Record<string, string> = { ur: DEFAULT_GRADIO_SPACE },
+  endpoint: string = '/predict'
+): TranslationProvider {
+  return {
+    name: 'gradio',
+    async translate(text: string, targetLanguage: string): Promise<string> {
+      const space = spaces[targetLanguage];
+      if (!space) {
+        throw new Error(`No Gradio Space configured for language "${targetLanguage}"`);
+      }
+      const client = await GradioClient.connect(space);
+      const result = await client.predict(endpoint, { text });
+      const data = Array.isArray(result.data) ? result.data[0] : result.data;
+      if (typeof data !== 'string') {
+        throw new Error(`Unexpected response from Gradio Space ${space}`);
+      }
+      return data;
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import fetch from 'node-fetch';
+import type { TranslationProvider } from './types';
+
+export interface HttpProviderOptions {
+  url: string;
+  apiKey?: string;
+  // Name of the JSON field holding the translated text in the response body.
+  responseField?: string;
+}
+
+// --- Provider: generic HTTP/JSON endpoint ---
+// POSTs `{ text, source, target }` and reads the translation from `responseField` of the JSON reply.
+export function createHttpProvider({ url, apiKey, responseField = 'translation' }: HttpProviderOptions): TranslationProvider {
+  return {
+    name: 'http',
+    async translate(text: string, targetLanguage: string): Promise<string> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+      const res = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ text, source: 'en', target: targetLanguage }),
+      });
+      if (!res.ok) {
+        throw new Error(`Translation endpoint responded with ${res.status} ${res.statusText}`);
+      }
+      const data = (await res.json()) as Record<string, unknown>;
+      const translated = data[responseField];
+      if (typeof translated !== 'string') {
+        throw new Error(`Translation endpoint response is missing "${responseField}"`);
+      }
+      return translated;
+    },
+  };
+}
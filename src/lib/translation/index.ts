@@ -0,0 +1,46 @@
+import { createDictionaryProvider } from './dictionary';
+import { createGradioProvider, DEFAULT_GRADIO_SPACE } from './gradio';
+import { createHttpProvider } from './http';
+import type { TranslationProvider } from './types';
+
+export type { TranslationProvider } from './types';
+
+// Selects the translation backend from environment config:
+//   TRANSLATION_PROVIDER = gradio (default) | http | dictionary
+//   GRADIO_SPACE         = Hugging Face Space id for Urdu with the gradio provider
+//   GRADIO_SPACES        = extra per-language Spaces, e.g. "hi=user/en-hi,ar=user/en-ar"
+//   TRANSLATION_API_URL / TRANSLATION_API_KEY / TRANSLATION_RESPONSE_FIELD for the http provider
+export function getTranslationProvider(env: NodeJS.ProcessEnv = process.env): TranslationProvider {
+  const provider = (env.TRANSLATION_PROVIDER || 'gradio').toLowerCase();
+  switch (provider) {
+    case 'gradio':
+      return createGradioProvider({
+        ur: env.GRADIO_SPACE || DEFAULT_GRADIO_SPACE,
+        ...parseSpaces(env.GRADIO_SPACES),
+      });
+    case 'http':
+      if (!env.TRANSLATION_API_URL) {
+        throw new Error('TRANSLATION_API_URL must be set when TRANSLATION_PROVIDER=http');
+      }
+      return createHttpProvider({
+        url: env.TRANSLATION_API_URL,
+        apiKey: env.TRANSLATION_API_KEY,
+        responseField: env.TRANSLATION_RESPONSE_FIELD,
+      });
+    case 'dictionary':
+      return createDictionaryProvider();
+    default:
+      throw new Error(`Unknown TRANSLATION_PROVIDER "${provider}"`);
+  }
+}
+
+// --- Helper: Parse "lang=space,lang=space" into a map ---
+function parseSpaces(value: string | undefined): Record<string, string> {
+  const spaces: Record<string, string> = {};
+  if (!value) return spaces;
+  for (const entry of value.split(',')) {
+    const [lang, space] = entry.split('=').map((part) => part.trim());
+    if (lang && space) spaces[lang.toLowerCase()] = space;
+  }
+  return spaces;
+}
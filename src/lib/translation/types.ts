@@ -0,0 +1,5 @@
+// A translation backend that turns an English summary into a target language (ISO 639-1 code, e.g. "ur").
+export interface TranslationProvider {
+  name: string;
+  translate(text: string, targetLanguage: string): Promise<string>;
+}
@@ -0,0 +1,165 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { MongoServerError, ObjectId, type Document } from 'mongodb';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getDb } from './mongodb';
+import { SummariseError, ValidationError } from './errors';
+import { CredentialsSchema, fieldErrors } from './schema';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'session';
+const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+const KEY_LENGTH = 64;
+
+export interface User {
+  id: string;
+  email: string;
+  createdAt: string;
+}
+
+// Reply to the /api/auth routes
+export interface AuthState {
+  user: User | null;
+}
+
+export interface Session {
+  // Sent to the browser as the cookie value; only its hash is stored
+  token: string;
+  expiresAt: Date;
+}
+
+const toIso = (value: Date | string) => new Date(value).toISOString();
+
+function toUser(doc: Document): User {
+  return { id: String(doc._id), email: doc.email, createdAt: toIso(doc.createdAt) };
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+// --- Helper: "scrypt$<salt>$<hash>", both hex ---
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Compared against when the email is unknown, so a sign-in takes as long either way
+let decoyHash: Promise<string> | null = null;
+
+let indexesReady: Promise<unknown> | null = null;
+
+async function collections() {
+  const db = await getDb();
+  const users = db.collection('users');
+  const sessions = db.collection('sessions');
+  if (!indexesReady) {
+    indexesReady = Promise.all([
+      users.createIndex({ email: 1 }, { unique: true }),
+      sessions.createIndex({ tokenHash: 1 }, { unique: true }),
+      sessions.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]).catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+  return { users, sessions };
+}
+
+// --- Helper: Validated, normalised email and password ---
+function parseCredentials(body: unknown) {
+  const parsed = CredentialsSchema.safeParse(body);
+  if (!parsed.success) throw new ValidationError(fieldErrors(parsed.error));
+  return parsed.data;
+}
+
+// --- Create an account (CONFLICT when the email is taken) ---
+export async function createUser(body: unknown): Promise<User> {
+  const { email, password } = parseCredentials(body);
+  const { users } = await collections();
+  const doc = { email, passwordHash: await hashPassword(password), createdAt: new Date() };
+  try {
+    const { insertedId } = await users.insertOne(doc);
+    return toUser({ ...doc, _id: insertedId });
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) {
+      throw new SummariseError('CONFLICT', 'An account with this email already exists.');
+    }
+    throw error;
+  }
+}
+
+// --- Check an email and password (UNAUTHORIZED without saying which one was wrong) ---
+export async function verifyCredentials(body: unknown): Promise<User> {
+  const { email, password } = parseCredentials(body);
+  const { users } = await collections();
+  const doc = await users.findOne({ email });
+  if (!decoyHash) decoyHash = hashPassword(randomBytes(16).toString('hex'));
+  const valid = await verifyPassword(password, doc?.passwordHash ?? (await decoyHash));
+  if (!doc || !valid) throw new SummariseError('UNAUTHORIZED', 'Incorrect email or password.');
+  return toUser(doc);
+}
+
+export async function createSession(userId: string): Promise<Session> {
+  const { sessions } = await collections();
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_SECONDS * 1000);
+  await sessions.insertOne({ tokenHash: hashToken(token), userId, expiresAt, createdAt: new Date() });
+  return { token, expiresAt };
+}
+
+// --- The signed-in user behind the request's session cookie; null when there is none or it expired ---
+export async function sessionUser(req: NextRequest): Promise<User | null> {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return null;
+  const { users, sessions } = await collections();
+  // The TTL index removes expired sessions in the background; this covers the gap
+  const session = await sessions.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+  if (!session || !ObjectId.isValid(session.userId)) return null;
+  const doc = await users.findOne({ _id: new ObjectId(session.userId) });
+  return doc ? toUser(doc) : null;
+}
+
+// --- Helper: Session lookup that never fails the request, for routes that also serve anonymous callers ---
+export async function optionalSessionUser(req: NextRequest): Promise<User | null> {
+  try {
+    return await sessionUser(req);
+  } catch (error) {
+    console.error('Session lookup error:', error);
+    return null;
+  }
+}
+
+// --- Like sessionUser, but UNAUTHORIZED when nobody is signed in ---
+export async function requireUser(req: NextRequest): Promise<User> {
+  const user = await sessionUser(req);
+  if (!user) throw new SummariseError('UNAUTHORIZED', 'Sign in to use your library.');
+  return user;
+}
+
+export async function endSession(req: NextRequest): Promise<void> {
+  const token = req.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) return;
+  const { sessions } = await collections();
+  await sessions.deleteOne({ tokenHash: hashToken(token) });
+}
+
+// --- Helper: Set the httpOnly session cookie (Secure in production); null clears it ---
+export function setSessionCookie(response: NextResponse, session: Session | null): void {
+  response.cookies.set(SESSION_COOKIE, session?.token ?? '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: session?.expiresAt ?? new Date(0),
+  });
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { runBatch } from '../src/lib/batch';
+import { runFeedDigest } from '../src/lib/digest';
+
+describe('runBatch', () => {
+  it('rejects a body that is not a JSON object', async () => {
+    for (const body of [null, 'https://a.example', ['https://a.example']]) {
+      await expect(runBatch(body)).rejects.toMatchObject({ code: 'INVALID_REQUEST', status: 400 });
+    }
+  });
+
+  it('rejects invalid shared options once, before summarising any item', async () => {
+    await expect(runBatch({ items: ['https://a.example'], languages: ['klingon'] })).rejects.toMatchObject({ code: 'VALIDATION_FAILED', status: 422 });
+    await expect(runBatch({ items: ['https://a.example'], length: 'long' })).rejects.toMatchObject({ code: 'VALIDATION_FAILED' });
+  });
+});
+
+describe('runFeedDigest', () => {
+  it('rejects a body that is not a JSON object, or invalid options, before fetching the feed', async () => {
+    await expect(runFeedDigest(null)).rejects.toMatchObject({ code: 'INVALID_REQUEST', status: 400 });
+    await expect(runFeedDigest({ url: 'https://a.example/feed.xml', languages: ['klingon'] })).rejects.toMatchObject({ code: 'VALIDATION_FAILED', status: 422 });
+  });
+});
@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { extractArticle, findNextPageUrl } from '../src/lib/extractor';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('extractArticle', () => {
+  const article = extractArticle(fixture('article.html'), 'https://blog.example.com/posts/why-caches-go-stale?utm_source=feed');
+
+  it('reads metadata from OpenGraph, JSON-LD and the document', () => {
+    expect(article).toMatchObject({
+      title: 'Why caches go stale',
+      canonicalUrl: 'https://blog.example.com/posts/why-caches-go-stale',
+      author: 'Sam Rivera, Ana Lee',
+      publishedAt: '2025-03-14T08:00:00Z',
+      siteName: 'Example Engineering',
+      language: 'en-GB',
+      leadImage: 'https://blog.example.com/images/cache.png',
+    });
+  });
+
+  it('keeps the article body as paragraphs and drops the page chrome around it', () => {
+    const blocks = article.text.split('\n\n');
+    expect(blocks[0]).toMatch(/^Every cache is a bet/);
+    expect(blocks).toContain('There are only two hard things in computer science: cache invalidation and naming things.');
+    expect(blocks).toContain('Version keys so that a write simply stops old entries from being read again.');
+    expect(blocks[blocks.length - 1]).toMatch(/which is the real design choice\.$/);
+    for (const noise of ['cookies', 'Share this post', 'newsletter', 'Great post', 'Copyright', 'All posts']) {
+      expect(article.text).not.toContain(noise);
+    }
+    expect(article.wordCount).toBe(article.text.split(/\s+/).length);
+  });
+
+  it('falls back to the page itself when there is no metadata', () => {
+    const bare = extractArticle('<html><body><h1>Plain page</h1><p>Just enough text in one paragraph to count as content.</p></body></html>', 'https://www.example.org/plain');
+    expect(bare).toMatchObject({
+      title: 'Plain page',
+      canonicalUrl: 'https://www.example.org/plain',
+      author: null,
+      siteName: 'example.org',
+      leadImage: null,
+      text: 'Just enough text in one paragraph to count as content.',
+    });
+  });
+});
+
+describe('findNextPageUrl', () => {
+  it('follows a numbered pager to the following page, ignoring links to other posts', () => {
+    expect(findNextPageUrl(fixture('paginated.html'), 'https://blog.example.com/blog/long-read/2')).toBe('https://blog.example.com/blog/long-read/3');
+  });
+
+  it('prefers rel="next"', () => {
+    const html = '<link rel="next" href="?page=3#top"><a href="/other">Next</a>';
+    expect(findNextPageUrl(html, 'https://example.com/story?page=2')).toBe('https://example.com/story?page=3');
+  });
+
+  it('rejects links that leave the article or go backwards', () => {
+    const html = '<a rel="next" href="https://elsewhere.example/story/3">Next</a><a href="/story/1">Next</a>';
+    expect(findNextPageUrl(html, 'https://example.com/story/2')).toBeNull();
+    expect(findNextPageUrl(fixture('paginated.html'), 'not a url')).toBeNull();
+  });
+
+  it('does not read a numeric story id as a page number', () => {
+    const html = '<a rel="next" href="/news/12346">Next</a><div class="pagination"><a href="/news/12346">Next</a></div>';
+    expect(findNextPageUrl(html, 'https://example.com/news/12345')).toBeNull();
+  });
+
+  it('does not read a "top-N" slug as a page number', () => {
+    const html = '<div class="pagination"><a href="/p/top-11">Next</a><a href="/p/top-10-p2">2</a></div>';
+    expect(findNextPageUrl(html, 'https://example.com/p/top-10')).toBe('https://example.com/p/top-10-p2');
+  });
+
+  it('only follows "Next" text links inside a pagination container', () => {
+    expect(findNextPageUrl('<a href="/story/page/2">Next</a>', 'https://example.com/story')).toBeNull();
+    expect(findNextPageUrl('<nav class="nav-links"><a href="/story/page/2">Next</a></nav>', 'https://example.com/story')).toBe('https://example.com/story/page/2');
+  });
+});
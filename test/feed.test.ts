@@ -0,0 +1,69 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { discoverFeedUrl, parseFeed } from '../src/lib/feed';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('parseFeed', () => {
+  it('reads an RSS 2.0 channel and its items', () => {
+    const feed = parseFeed(fixture('rss2.xml'), 'https://blog.example.com/feed.xml');
+    expect(feed).toMatchObject({ format: 'rss', title: 'Example Engineering', link: 'https://blog.example.com/' });
+    expect(feed.entries).toEqual([
+      {
+        title: 'Scaling the search index',
+        link: 'https://blog.example.com/posts/scaling-search',
+        publishedAt: '2025-06-03T09:30:00.000Z',
+        excerpt: 'How we sharded the index.',
+      },
+      {
+        title: 'Permalink only',
+        link: 'https://blog.example.com/posts/permalink-only',
+        publishedAt: '2025-05-20T08:00:00.000Z',
+        excerpt: 'Plain text excerpt',
+      },
+      { title: 'Opaque guid', link: '', publishedAt: null, excerpt: '' },
+    ]);
+  });
+
+  it('reads RSS 1.0 (RDF) items kept next to the channel', () => {
+    const feed = parseFeed(fixture('rdf.xml'));
+    expect(feed).toMatchObject({ format: 'rss', title: 'Example News', link: 'https://news.example.org/' });
+    expect(feed.entries.map((entry) => entry.link)).toEqual(['https://news.example.org/a', 'https://news.example.org/b']);
+    expect(feed.entries[0]).toMatchObject({ publishedAt: '2025-04-01T10:00:00.000Z', excerpt: 'The first story.' });
+    expect(feed.entries[1].publishedAt).toBeNull();
+  });
+
+  it('reads an Atom feed, preferring alternate links and published dates', () => {
+    const feed = parseFeed(fixture('atom.xml'), 'https://example.net/atom.xml');
+    expect(feed).toMatchObject({ format: 'atom', title: 'Example & Co', link: 'https://example.net/' });
+    expect(feed.entries).toEqual([
+      {
+        title: 'Atom entry',
+        link: 'https://example.net/atom-entry',
+        publishedAt: '2025-06-01T10:00:00.000Z',
+        excerpt: 'Short summary',
+      },
+      {
+        title: 'Content only',
+        link: 'https://example.net/content-only',
+        publishedAt: '2025-05-30T10:00:00.000Z',
+        excerpt: 'Full content',
+      },
+    ]);
+  });
+
+  it('throws on documents that are not feeds', () => {
+    expect(() => parseFeed(fixture('feed-link.html'))).toThrow('Not an RSS or Atom feed');
+  });
+});
+
+describe('discoverFeedUrl', () => {
+  it('returns the first RSS or Atom alternate link, resolved against the page', () => {
+    expect(discoverFeedUrl(fixture('feed-link.html'), 'https://blog.example.com/posts/1')).toBe('https://blog.example.com/feed.xml');
+  });
+
+  it('returns null when the page advertises no feed', () => {
+    expect(discoverFeedUrl('<html><head><link rel="alternate" hreflang="de" href="/de/"></head></html>')).toBeNull();
+  });
+});
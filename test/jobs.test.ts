@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryJobStore, getJobStatus, JOB_MAX_RUN_SECONDS } from '../src/lib/jobs';
+import { parseSummariseRequest } from '../src/lib/pipeline';
+
+const request = parseSummariseRequest({ url: 'https://blog.example.com/post' });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getJobStatus with the memory store', () => {
+  it('leaves a running job alone while it is within its run time', async () => {
+    const store = createMemoryJobStore();
+    const job = await store.create(request);
+    await store.claim(job.id);
+    expect(await getJobStatus(job.id, store)).toMatchObject({ status: 'running', error: null });
+  });
+
+  it('fails a job left running after its function was stopped', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const store = createMemoryJobStore();
+    const job = await store.create(request);
+    await store.claim(job.id);
+
+    vi.setSystemTime((JOB_MAX_RUN_SECONDS + 61) * 1000);
+    expect(await getJobStatus(job.id, store)).toMatchObject({ status: 'failed', progress: 1, errorCode: 'INTERNAL', errorStatus: 500 });
+    // Finished jobs are never failed again
+    await store.update(job.id, { status: 'completed' });
+    expect(await store.failStale(job.id, new Date(), { status: 'failed' })).toBeNull();
+  });
+
+  it('returns null for unknown jobs', async () => {
+    expect(await getJobStatus('missing', createMemoryJobStore())).toBeNull();
+  });
+});
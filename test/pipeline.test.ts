@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { translateSummary } from '../src/lib/pipeline';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('translateSummary', () => {
+  it('lists translations and errors in the requested order, not the order they finish in', async () => {
+    // The first languages asked for answer last; "xx" fails
+    const delays: Record<string, number> = { ur: 120, fr: 60, xx: 30, es: 0 };
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        const { target } = JSON.parse(body);
+        setTimeout(() => {
+          res.statusCode = target === 'xx' ? 500 : 200;
+          res.end(JSON.stringify({ translation: `${target}: summary` }));
+        }, delays[target]);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      vi.stubEnv('TRANSLATION_PROVIDER', 'http');
+      vi.stubEnv('TRANSLATION_API_URL', `http://127.0.0.1:${port}/`);
+      const finished: string[] = [];
+      const { translations, translationErrors } = await translateSummary('summary', ['ur', 'fr', 'xx', 'es'], (lang) => finished.push(lang));
+      expect(finished).toEqual(['es', 'fr', 'ur']);
+      expect(Object.keys(translations)).toEqual(['ur', 'fr', 'es']);
+      expect(translations.ur).toBe('ur: summary');
+      expect(Object.keys(translationErrors)).toEqual(['xx']);
+    } finally {
+      server.close();
+    }
+  });
+});
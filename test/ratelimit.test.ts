@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+import { clientIp, createMemoryRateLimitStore, decide, hitRateLimit, tightest, type RateLimitConfig } from '../src/lib/ratelimit';
+import { recordSocketAddresses } from '../src/lib/socketaddress';
+import { withApiAccess } from '../src/lib/access';
+import { batchCost } from '../src/lib/batch';
+import { feedDigestCost } from '../src/lib/digest';
+
+const config: RateLimitConfig = { windowSeconds: 60, perIp: 2, perKey: 5, perIpAuth: 1, trustedProxies: 1 };
+const request = (headers: Record<string, string>) => ({ headers: new Headers(headers) }) as unknown as NextRequest;
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('decide', () => {
+  it('weights the previous window by how much of it still overlaps', () => {
+    // Halfway through the window: 4 previous requests count as 2
+    expect(decide({ current: 1, previous: 4, windowStart: 0 }, 3, 1000, 500)).toMatchObject({ allowed: true, remaining: 0 });
+    expect(decide({ current: 2, previous: 4, windowStart: 0 }, 3, 1000, 500)).toMatchObject({ allowed: false, remaining: 0 });
+  });
+});
+
+describe('hitRateLimit with the memory store', () => {
+  it('rejects once the limit is used up and says when to retry', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+    const store = createMemoryRateLimitStore();
+    const hit = () => hitRateLimit('ip:1.2.3.4', config.perIp, store, config);
+    expect(await hit()).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+    expect(await hit()).toMatchObject({ allowed: true, remaining: 0 });
+    // Room comes back once this window's 3 requests weigh 1, two thirds into the next window
+    expect(await hit()).toMatchObject({ allowed: false, retryAfter: 100 });
+    // Other clients have their own windows
+    expect(await hitRateLimit('ip:5.6.7.8', config.perIp, store, config)).toMatchObject({ allowed: true });
+  });
+
+  it('is off for a limit of 0', async () => {
+    expect(await hitRateLimit('key:a', 0, createMemoryRateLimitStore(), config)).toBeNull();
+  });
+});
+
+describe('tightest', () => {
+  it('picks the longest wait when any limit rejects, otherwise the fewest remaining', () => {
+    const ip = { allowed: true, limit: 10, remaining: 7, retryAfter: 0 };
+    const key = { allowed: true, limit: 60, remaining: 3, retryAfter: 0 };
+    const denied = { allowed: false, limit: 10, remaining: 0, retryAfter: 30 };
+    expect(tightest([ip, key])).toBe(key);
+    expect(tightest([denied, key])).toBe(denied);
+    expect(tightest([null, null])).toBeNull();
+  });
+});
+
+describe('clientIp', () => {
+  it('takes the address added by the outermost trusted proxy, not the client-supplied ones', () => {
+    const req = request({ 'x-forwarded-for': '6.6.6.6, 1.2.3.4, 10.0.0.1' });
+    expect(clientIp(req, 1)).toBe('10.0.0.1');
+    expect(clientIp(req, 2)).toBe('1.2.3.4');
+    expect(clientIp(request({ 'x-real-ip': '5.5.5.5' }), 1)).toBe('5.5.5.5');
+  });
+
+  it('uses the recorded socket address when no proxy is trusted, never the client-supplied headers', async () => {
+    const req = request({ 'x-forwarded-for': '6.6.6.6', 'x-real-ip': '5.5.5.5', 'x-socket-address': '9.9.9.9' });
+    // Not recorded by this process, so the header may have come from the client
+    expect(clientIp(req, 0)).toBe('unknown');
+
+    recordSocketAddresses();
+    const server = createServer((incoming, res) => {
+      const headers = new Headers(incoming.headers as Record<string, string>);
+      res.end(clientIp({ headers } as unknown as NextRequest, 0));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const response = await fetch(`http://127.0.0.1:${port}/`, { headers: { 'x-forwarded-for': '6.6.6.6', 'x-socket-address': '9.9.9.9' } });
+      expect(await response.text()).toBe('127.0.0.1');
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe('request cost', () => {
+  it('charges a request its units of work, capped at the limit', async () => {
+    const store = createMemoryRateLimitStore();
+    expect(await hitRateLimit('key:b', 5, store, config, 3)).toMatchObject({ allowed: true, remaining: 2 });
+    expect(await hitRateLimit('key:b', 5, store, config, 3)).toMatchObject({ allowed: false });
+    // More than the whole limit still fits an empty window, and uses all of it
+    expect(await hitRateLimit('key:c', 5, store, config, 60)).toMatchObject({ allowed: true, remaining: 0 });
+  });
+
+  it('weighs batches and feed digests by articles and languages', () => {
+    expect(batchCost({ items: ['https://a.example', 'https://b.example'], languages: ['ur', 'fr', 'es'] })).toBe(6);
+    expect(batchCost({ items: new Array(50).fill('text'), languages: [] })).toBe(20);
+    expect(batchCost(null)).toBe(1);
+    expect(feedDigestCost({ url: 'https://a.example/feed.xml' })).toBe(5);
+    expect(feedDigestCost({ limit: 20, languages: ['ur', 'fr'] })).toBe(40);
+  });
+
+  it('stops a client that sends one large batch from sending another straight away', async () => {
+    vi.stubEnv('RATE_LIMIT_BACKEND', 'memory');
+    vi.stubEnv('RATE_LIMIT_PER_IP', '10');
+    vi.stubEnv('TRUSTED_PROXY_COUNT', '1');
+    const handler = withApiAccess(async () => new Response('ok'), { cost: async (req) => batchCost(await req.clone().json()) });
+    const batch = () =>
+      handler(
+        new NextRequest('http://localhost/api/summarise/batch', {
+          method: 'POST',
+          headers: { 'x-forwarded-for': '7.7.7.7' },
+          body: JSON.stringify({ items: new Array(8).fill('https://a.example'), languages: ['ur'] }),
+        })
+      );
+    const first = await batch();
+    expect(first.status).toBe(200);
+    expect(first.headers.get('X-RateLimit-Remaining')).toBe('2');
+    expect((await batch()).status).toBe(429);
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TEXTRANK_SENTENCES, summarizeText } from '../src/lib/summarizer';
+
+// Letters only, since digits are stripped from content words
+const word = (n: number) => 'w' + n.toString(26).replace(/\d/g, (d) => 'qrstuvwxyz'[Number(d)]);
+
+describe('summarizeText with textrank', () => {
+  it('pre-selects graph sentences by frequency per word, not by length', () => {
+    // Long sentences of rare words, each appearing twice; their raw frequency sums beat the short, central ones
+    const pairs = MAX_TEXTRANK_SENTENCES / 2 + 10;
+    const long = Array.from({ length: pairs * 2 }, (_, i) =>
+      Array.from({ length: 40 }, (_, j) => word((i % pairs) * 40 + j)).join(' ') + '.'
+    );
+    const central = 'Caching invalidation matters.';
+    const text = [...long.slice(0, pairs), ...new Array(20).fill(central), ...long.slice(pairs)].join(' ');
+    const { sentences } = summarizeText(text, { algorithm: 'textrank', length: { mode: 'ratio', value: 1 } });
+    // Sentences left out of the graph score 0
+    const scoreOf = (sentence: string) => sentences.find((s) => s.text === sentence)!.score;
+    expect(scoreOf(central)).toBeGreaterThan(0);
+    expect(sentences.filter((s) => s.score > 0)).toHaveLength(MAX_TEXTRANK_SENTENCES);
+  });
+});